@@ -0,0 +1,41 @@
+import { ApiError, apiClient } from "@/lib/api"
+import { ICS_MIME_TYPE, toIcsCalendar } from "@/lib/calendar-export"
+
+// Calendar apps poll the feed; always serve the group's current rides
+export const dynamic = "force-dynamic"
+
+/**
+ * A member's subscription feed of a group's scheduled rides, as iCalendar.
+ * The URL carries the member's feed token (optionally ending in ".ics", which some calendar apps
+ * expect); calendar apps can't sign in, so the token alone authorizes the feed.
+ */
+export async function GET(request: Request, { params }: { params: { token: string } }) {
+  const token = params.token.replace(/\.ics$/, "")
+
+  try {
+    const response = await apiClient.getCalendarFeedContent(token)
+    if (!response.success) {
+      return new Response("Calendar feed not found", { status: 404 })
+    }
+
+    const { group, rides } = response.data
+    const calendar = toIcsCalendar(rides, {
+      calendarName: `${group.name} rides`,
+      appUrl: new URL(request.url).origin,
+    })
+    return new Response(calendar, {
+      headers: {
+        "Content-Type": `${ICS_MIME_TYPE}; charset=utf-8`,
+        "Content-Disposition": `inline; filename="${group.id}.ics"`,
+        "Cache-Control": "private, no-store",
+      },
+    })
+  } catch (err) {
+    // A revoked or unknown token looks the same as a missing feed
+    if (err instanceof ApiError && [401, 403, 404].includes(err.status)) {
+      return new Response("Calendar feed not found", { status: 404 })
+    }
+    console.error("Error serving calendar feed:", err)
+    return new Response("Calendar feed unavailable", { status: 502 })
+  }
+}
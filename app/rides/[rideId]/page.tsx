@@ -0,0 +1,36 @@
+"use client"
+
+import { useParams } from "next/navigation"
+import { useAuth } from "@/hooks/use-auth"
+import { RideDetail } from "@/components/ride-detail"
+
+/**
+ * Ride detail page.
+ * - Shows a single ride's summary, participants, alerts and map track.
+ * - Redirects to home if not authenticated.
+ */
+export default function RideDetailPage() {
+  const { rideId } = useParams<{ rideId: string }>()
+  const { user, isAuthenticated, isLoading } = useAuth()
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
+          <p className="text-muted-foreground">Loading...</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (!isAuthenticated || !user) {
+    // Redirect to home if not authenticated
+    if (typeof window !== "undefined") {
+      window.location.href = "/"
+    }
+    return null
+  }
+
+  return <RideDetail rideId={rideId} />
+}
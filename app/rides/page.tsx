@@ -1,11 +1,11 @@
 "use client"
 
 import { useAuth } from "@/hooks/use-auth"
-import { RideManagement } from "@/components/ride-management"
+import { RideHistory } from "@/components/ride-history"
 
 /**
  * Rides page.
- * - Shows ride management UI for authenticated users.
+ * - Shows the ride history for authenticated users.
  * - Redirects to home if not authenticated.
  */
 export default function RidesPage() {
@@ -30,12 +30,5 @@ export default function RidesPage() {
     return null
   }
 
-  // Start ride: navigate to ride page with group/ride info
-  const handleSelectRide = (ride: any) => {
-    if (ride && ride.id) {
-      window.location.href = `/rides/start?groupId=${ride.id}`
-    }
-  }
-
-  return <RideManagement currentUser={user} onSelectRide={handleSelectRide} />
+  return <RideHistory />
 }
@@ -0,0 +1,127 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog"
+import { Check, Copy, Rss } from "lucide-react"
+import { apiClient, getErrorMessage, type CalendarFeed, type Group } from "@/lib/api"
+import { getCalendarFeedUrl, toWebcalUrl } from "@/lib/calendar-export"
+
+interface CalendarFeedDialogProps {
+  group: Group
+}
+
+/**
+ * Subscribe to a group's scheduled rides from a calendar app. The feed URL is private to the current
+ * user and can be reset if it was shared by mistake. Rides added, moved or cancelled later show up
+ * when the calendar app next refreshes the feed.
+ */
+export function CalendarFeedDialog({ group }: CalendarFeedDialogProps) {
+  const [open, setOpen] = useState(false)
+  const [feed, setFeed] = useState<CalendarFeed | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [copied, setCopied] = useState(false)
+  const [error, setError] = useState("")
+
+  const loadFeed = async (reset = false) => {
+    try {
+      setIsLoading(true)
+      setError("")
+      const response = reset
+        ? await apiClient.resetGroupCalendarFeed(group.id)
+        : await apiClient.getGroupCalendarFeed(group.id)
+      if (response.success) {
+        setFeed(response.data)
+      } else {
+        setError("Failed to load calendar feed")
+      }
+    } catch (err) {
+      setError(getErrorMessage(err, "Failed to load calendar feed"))
+      console.error("Error loading calendar feed:", err)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    setOpen(nextOpen)
+    setCopied(false)
+    if (nextOpen) {
+      loadFeed()
+    }
+  }
+
+  const feedUrl = feed ? getCalendarFeedUrl(window.location.origin, feed.token) : ""
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(feedUrl)
+      setCopied(true)
+    } catch (err) {
+      setError("Couldn't copy the link; select it and copy it instead")
+      console.error("Error copying calendar feed URL:", err)
+    }
+  }
+
+  const handleReset = async () => {
+    setCopied(false)
+    await loadFeed(true)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <Rss className="h-4 w-4 mr-2" />
+          Subscribe
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Subscribe to {group.name} rides</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Add this link to your calendar app to see the group&apos;s scheduled rides. New, changed and cancelled
+            rides are picked up whenever your calendar refreshes.
+          </p>
+          <div className="space-y-2">
+            <Label htmlFor="calendar-feed-url">Calendar link</Label>
+            <div className="flex gap-2">
+              <Input
+                id="calendar-feed-url"
+                readOnly
+                value={isLoading ? "Loading..." : feedUrl}
+                onFocus={(e) => e.target.select()}
+              />
+              <Button variant="outline" onClick={handleCopy} disabled={!feed || isLoading} aria-label="Copy link">
+                {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              This link is personal. Anyone who has it can see the group&apos;s rides.
+            </p>
+          </div>
+          {error && <div className="p-3 text-sm text-red-600 bg-red-50 border border-red-200 rounded-md">{error}</div>}
+          <div className="flex gap-2">
+            {/* A link can't be disabled, so it only replaces the button once there's a feed to open */}
+            {feed && !isLoading ? (
+              <Button asChild className="flex-1">
+                <a href={toWebcalUrl(feedUrl)}>Open in calendar app</a>
+              </Button>
+            ) : (
+              <Button className="flex-1" disabled>
+                Open in calendar app
+              </Button>
+            )}
+            <Button variant="outline" onClick={handleReset} disabled={!feed || isLoading}>
+              Reset link
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
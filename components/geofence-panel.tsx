@@ -0,0 +1,238 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Plus, Trash2, Undo2, Target } from "lucide-react"
+import { GEOFENCE_KINDS } from "@/lib/geofence"
+import type { Geofence } from "@/lib/api"
+import type { LatLng } from "@/lib/geo"
+
+/**
+ * A geofence being drawn. For circles the first point is the center; polygons use every point.
+ */
+export interface GeofenceDraft {
+  name: string
+  kind: Geofence["kind"]
+  shapeType: "circle" | "polygon"
+  points: LatLng[]
+  radiusMeters: number
+}
+
+export const EMPTY_GEOFENCE_DRAFT: GeofenceDraft = {
+  name: "",
+  kind: "meeting_point",
+  shapeType: "circle",
+  points: [],
+  radiusMeters: 100,
+}
+
+/**
+ * Build a geofence from a draft, or null while the shape is incomplete.
+ */
+export function geofenceFromDraft(draft: GeofenceDraft, id: string): Geofence | null {
+  const name = draft.name.trim() || GEOFENCE_KINDS[draft.kind].label
+  if (draft.shapeType === "circle") {
+    if (draft.points.length === 0 || draft.radiusMeters <= 0) return null
+    const [center] = draft.points
+    return {
+      id,
+      name,
+      kind: draft.kind,
+      shape: {
+        type: "circle",
+        center: { latitude: center.lat, longitude: center.lng },
+        radiusMeters: draft.radiusMeters,
+      },
+    }
+  }
+  if (draft.points.length < 3) return null
+  return {
+    id,
+    name,
+    kind: draft.kind,
+    shape: { type: "polygon", points: draft.points.map((point) => ({ latitude: point.lat, longitude: point.lng })) },
+  }
+}
+
+/**
+ * What to draw on the map while a geofence is being drawn. Unlike geofenceFromDraft, a polygon with
+ * only two corners is shown so the organizer can see the edge they're building.
+ */
+export function geofencePreview(draft: GeofenceDraft): Geofence | null {
+  if (draft.shapeType === "polygon" && draft.points.length === 2) {
+    return {
+      id: "draft",
+      name: draft.name,
+      kind: draft.kind,
+      shape: { type: "polygon", points: draft.points.map((point) => ({ latitude: point.lat, longitude: point.lng })) },
+    }
+  }
+  return geofenceFromDraft(draft, "draft")
+}
+
+interface GeofencePanelProps {
+  geofences: Geofence[]
+  // Geofence being drawn, or null when not drawing
+  draft: GeofenceDraft | null
+  canEdit: boolean
+  isSaving: boolean
+  // Number of members inside each geofence, keyed by geofence id
+  occupants: Record<string, number>
+  onAdd: () => void
+  onDraftChange: (draft: GeofenceDraft) => void
+  onSave: () => void
+  onCancel: () => void
+  onDelete: (geofenceId: string) => void
+}
+
+/**
+ * Sidebar card listing a ride's geofences. Organizers draw new ones on the map: a click sets a circle's
+ * center, or adds a polygon corner.
+ */
+export function GeofencePanel({
+  geofences,
+  draft,
+  canEdit,
+  isSaving,
+  occupants,
+  onAdd,
+  onDraftChange,
+  onSave,
+  onCancel,
+  onDelete,
+}: GeofencePanelProps) {
+  const describeShape = (fence: Geofence) =>
+    fence.shape.type === "circle" ? `${fence.shape.radiusMeters}m radius` : `${fence.shape.points.length} corners`
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center justify-between">
+          <span className="flex items-center gap-2">
+            <Target className="h-5 w-5" />
+            Geofences
+          </span>
+          {canEdit && !draft && (
+            <Button variant="ghost" size="sm" onClick={onAdd}>
+              <Plus className="h-4 w-4" />
+            </Button>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {geofences.length === 0 && !draft && <p className="text-sm text-muted-foreground">No geofences defined</p>}
+
+        {geofences.map((fence) => (
+          <div key={fence.id} className="flex items-center justify-between gap-2 text-sm">
+            <div className="flex items-center gap-2 min-w-0">
+              <span
+                className="inline-block h-2.5 w-2.5 rounded-full shrink-0"
+                style={{ backgroundColor: GEOFENCE_KINDS[fence.kind].color }}
+              />
+              <div className="min-w-0">
+                <div className="font-medium truncate">{fence.name}</div>
+                <div className="text-xs text-muted-foreground">
+                  {GEOFENCE_KINDS[fence.kind].label} · {describeShape(fence)}
+                  {occupants[fence.id] ? ` · ${occupants[fence.id]} inside` : ""}
+                </div>
+              </div>
+            </div>
+            {canEdit && !draft && (
+              <Button variant="ghost" size="sm" onClick={() => onDelete(fence.id)} disabled={isSaving}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+        ))}
+
+        {draft && (
+          <div className="p-2 bg-secondary rounded-lg space-y-2">
+            <Input
+              value={draft.name}
+              onChange={(e) => onDraftChange({ ...draft, name: e.target.value })}
+              placeholder={GEOFENCE_KINDS[draft.kind].label}
+              className="h-8 text-sm"
+              aria-label="Geofence name"
+            />
+            <div className="flex gap-2">
+              <Select
+                value={draft.kind}
+                onValueChange={(value) => onDraftChange({ ...draft, kind: value as Geofence["kind"] })}
+              >
+                <SelectTrigger className="h-8 text-xs flex-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(GEOFENCE_KINDS) as Geofence["kind"][]).map((kind) => (
+                    <SelectItem key={kind} value={kind}>
+                      {GEOFENCE_KINDS[kind].label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select
+                value={draft.shapeType}
+                onValueChange={(value) =>
+                  // Points mean different things per shape, so start over
+                  onDraftChange({ ...draft, shapeType: value as GeofenceDraft["shapeType"], points: [] })
+                }
+              >
+                <SelectTrigger className="h-8 text-xs w-28">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="circle">Circle</SelectItem>
+                  <SelectItem value="polygon">Polygon</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {draft.shapeType === "circle" ? (
+              <>
+                <Input
+                  type="number"
+                  min={10}
+                  value={draft.radiusMeters}
+                  onChange={(e) => onDraftChange({ ...draft, radiusMeters: Math.max(0, Number(e.target.value)) })}
+                  className="h-8 text-sm"
+                  aria-label="Radius in meters"
+                />
+                <p className="text-xs text-muted-foreground">
+                  {draft.points.length > 0 ? "Click the map to move the center." : "Click the map to place the center."}
+                </p>
+              </>
+            ) : (
+              <div className="flex items-center justify-between">
+                <p className="text-xs text-muted-foreground">
+                  {draft.points.length} corners — click the map to add more (at least 3).
+                </p>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onDraftChange({ ...draft, points: draft.points.slice(0, -1) })}
+                  disabled={draft.points.length === 0}
+                >
+                  <Undo2 className="h-4 w-4" />
+                </Button>
+              </div>
+            )}
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                onClick={onSave}
+                disabled={isSaving || !geofenceFromDraft(draft, "preview")}
+                className="flex-1"
+              >
+                {isSaving ? "Saving..." : "Save Geofence"}
+              </Button>
+              <Button variant="outline" size="sm" onClick={onCancel} disabled={isSaving}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
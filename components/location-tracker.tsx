@@ -1,30 +1,51 @@
 "use client"
 
-import { useEffect } from "react"
+import { useEffect, useState } from "react"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
-import { MapPin, Navigation, Wifi, WifiOff, RefreshCw } from "lucide-react"
+import { MapPin, Navigation, Wifi, WifiOff, RefreshCw, CloudOff } from "lucide-react"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { useLocationSync } from "@/hooks/use-location-sync"
+import type { Ride } from "@/lib/api"
+import type { SamplingMode } from "@/lib/sampling-policy"
+
+const SAMPLING_MODE_LABELS: Record<SamplingMode, string> = {
+  high: "High accuracy",
+  balanced: "Balanced",
+  saver: "Battery saver",
+}
 
 interface LocationTrackerProps {
   rideId: string
+  rideStatus?: Ride["status"]
   onLocationUpdate?: (location: { lat: number; lng: number }) => void
   isTracking: boolean
   onToggleTracking: () => void
 }
 
-export function LocationTracker({ rideId, onLocationUpdate, isTracking, onToggleTracking }: LocationTrackerProps) {
+export function LocationTracker({
+  rideId,
+  rideStatus,
+  onLocationUpdate,
+  isTracking,
+  onToggleTracking,
+}: LocationTrackerProps) {
+  // Manual sampling mode chosen by the rider; null means automatic
+  const [samplingOverride, setSamplingOverride] = useState<SamplingMode | null>(null)
   const {
     currentLocation,
     error: locationError,
     lastSyncTime,
+    pendingCount,
+    samplingMode,
+    isAutoSampling,
     startTracking,
     stopTracking,
   } = useLocationSync({
     rideId,
-    updateInterval: 5000,
-    enableHighAccuracy: true,
+    rideStatus,
+    samplingOverride,
   })
 
   useEffect(() => {
@@ -79,12 +100,45 @@ export function LocationTracker({ rideId, onLocationUpdate, isTracking, onToggle
           </Button>
         </div>
 
+        <div className="flex items-center justify-between gap-2">
+          <div className="text-sm">
+            <span className="font-medium">GPS Mode</span>
+            <div className="text-xs text-muted-foreground">
+              {SAMPLING_MODE_LABELS[samplingMode]}
+              {isAutoSampling && " (auto)"}
+            </div>
+          </div>
+          <Select
+            value={samplingOverride ?? "auto"}
+            onValueChange={(value) => setSamplingOverride(value === "auto" ? null : (value as SamplingMode))}
+          >
+            <SelectTrigger size="sm" className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="auto">Auto</SelectItem>
+              <SelectItem value="high">{SAMPLING_MODE_LABELS.high}</SelectItem>
+              <SelectItem value="balanced">{SAMPLING_MODE_LABELS.balanced}</SelectItem>
+              <SelectItem value="saver">{SAMPLING_MODE_LABELS.saver}</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
         {locationError && (
           <div className="p-3 bg-destructive/10 border border-destructive/20 rounded-lg">
             <p className="text-sm text-destructive">{locationError}</p>
           </div>
         )}
 
+        {pendingCount > 0 && (
+          <div className="flex items-center gap-2 p-3 bg-yellow-50 border border-yellow-200 rounded-lg">
+            <CloudOff className="h-4 w-4 text-yellow-800" />
+            <p className="text-sm text-yellow-800">
+              {pendingCount} {pendingCount === 1 ? "point" : "points"} queued — will sync when back online
+            </p>
+          </div>
+        )}
+
         {currentLocation && (
           <div className="space-y-2">
             <div className="flex items-center gap-2 text-sm">
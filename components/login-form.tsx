@@ -8,6 +8,7 @@ import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { useAuth } from "@/hooks/use-auth"
+import { getErrorMessage } from "@/lib/api"
 
 interface LoginFormProps {
   onSwitchToRegister: () => void
@@ -31,10 +32,10 @@ export function LoginForm({ onSwitchToRegister }: LoginFormProps) {
         username: formData.username,
         password: formData.password,
       })
-      // Redirect to ridepage after successful login
-      router.push("/rides")
+      // Land on the groups and rides screen after a successful login
+      router.push("/")
     } catch (err) {
-      setError(err instanceof Error ? err.message : "Login failed")
+      setError(getErrorMessage(err, err instanceof Error ? err.message : "Login failed"))
     }
   }
 
@@ -1,18 +1,57 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useCallback, useRef } from "react"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
-import { MapPin, Users, LogOut, Settings, Bell, ArrowLeft, RefreshCw } from "lucide-react"
-import { GoogleMap } from "@/components/google-map"
-
-const GOOGLE_MAPS_API_KEY = process.env.NEXT_PUBLIC_GOOGLE_MAPS_API_KEY || "YOUR_GOOGLE_MAPS_API_KEY"
+import { Switch } from "@/components/ui/switch"
+import { MapPin, Users, Settings, Bell, ArrowLeft, RefreshCw } from "lucide-react"
+import { RideMap } from "@/components/ride-map"
+import { RideReplay } from "@/components/ride-replay"
+import { RoutePanel, DEFAULT_OFF_ROUTE_TOLERANCE } from "@/components/route-panel"
+import {
+  GeofencePanel,
+  EMPTY_GEOFENCE_DRAFT,
+  geofenceFromDraft,
+  geofencePreview,
+  type GeofenceDraft,
+} from "@/components/geofence-panel"
+import { RideExportDialog } from "@/components/ride-export-dialog"
+import { RideControls } from "@/components/ride-controls"
 import { AlertCenter } from "@/components/alert-center"
 import { LocationTracker } from "@/components/location-tracker"
 import { useAlertSystem } from "@/hooks/use-alert-system"
 import { useRealTimeUpdates } from "@/hooks/use-real-time-updates"
-import { apiClient, type Ride, type User } from "@/lib/api"
+import { useFilteredMembers } from "@/hooks/use-filtered-members"
+import { useRideTrails } from "@/hooks/use-ride-trails"
+import { useOffRouteDetection } from "@/hooks/use-off-route-detection"
+import { useGeofenceEvents } from "@/hooks/use-geofence-events"
+import { useRiderEtas, type RiderEta } from "@/hooks/use-rider-etas"
+import { useGroupRole } from "@/hooks/use-group-role"
+import { getMemberColor } from "@/lib/member-colors"
+import { describeRoute } from "@/lib/route"
+import { formatDistance } from "@/lib/geo"
+import { describeGeofenceEvent, getStatusTransition } from "@/lib/geofence"
+import {
+  findActiveRide,
+  getMemberStatusLabel,
+  getNextStatus,
+  isFinalStatus,
+  isUnderwayStatus,
+  RIDE_ACTIONS,
+  RIDE_STATUS_LABELS,
+  RideTransitionError,
+  type RideAction,
+} from "@/lib/ride-lifecycle"
+import {
+  apiClient,
+  getErrorMessage,
+  type ApiResponse,
+  type Geofence,
+  type Ride,
+  type RouteWaypoint,
+  type User,
+} from "@/lib/api"
 
 interface MapDashboardProps {
   ride: any // Can be either a Group or Ride
@@ -20,6 +59,13 @@ interface MapDashboardProps {
   onBackToRides: () => void
 }
 
+const RIDE_ACTION_REQUESTS: Record<RideAction, (rideId: string) => Promise<ApiResponse<Ride>>> = {
+  start: (rideId) => apiClient.startRide(rideId),
+  pause: (rideId) => apiClient.pauseRide(rideId),
+  resume: (rideId) => apiClient.resumeRide(rideId),
+  end: (rideId) => apiClient.endRide(rideId),
+}
+
 export function MapDashboard({ ride, currentUser, onBackToRides }: MapDashboardProps) {
   const [activeRide, setActiveRide] = useState<Ride | null>(null)
   const [currentUserLocation, setCurrentUserLocation] = useState<{ lat: number; lng: number } | null>(null)
@@ -27,6 +73,23 @@ export function MapDashboard({ ride, currentUser, onBackToRides }: MapDashboardP
   const [showLocationTracker, setShowLocationTracker] = useState(false)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState("")
+  // Set when the ride is open but we couldn't register as a member, so our position isn't shared
+  const [joinError, setJoinError] = useState("")
+  const [isJoining, setIsJoining] = useState(false)
+  // User ids whose trail is hidden on the map
+  const [hiddenTrails, setHiddenTrails] = useState<Set<string>>(new Set())
+  // Route being edited; null when not editing
+  const [routeDraft, setRouteDraft] = useState<RouteWaypoint[] | null>(null)
+  const [isSavingRoute, setIsSavingRoute] = useState(false)
+  // Distance from the planned route (meters) beyond which a member is reported off route
+  const [offRouteTolerance, setOffRouteTolerance] = useState(DEFAULT_OFF_ROUTE_TOLERANCE)
+  // Open off-route warning per user id, removed when they rejoin the route
+  const offRouteAlertIdsRef = useRef<Map<string, string>>(new Map())
+  // Geofence being drawn; null when not drawing
+  const [geofenceDraft, setGeofenceDraft] = useState<GeofenceDraft | null>(null)
+  const [isSavingGeofences, setIsSavingGeofences] = useState(false)
+  // Lifecycle action being sent to the server
+  const [pendingRideAction, setPendingRideAction] = useState<RideAction | null>(null)
 
   const {
     alerts,
@@ -37,23 +100,110 @@ export function MapDashboard({ ride, currentUser, onBackToRides }: MapDashboardP
     showSuccessAlert,
     addAlert,
     sendEmergencyAlert,
+    sendServerAlert,
   } = useAlertSystem({ rideId: activeRide?.id, enableServerSync: true })
 
+  // An ended ride is shown as a replay, so there's nothing live to follow
+  const isRideEnded = activeRide?.status === "ENDED"
+  // Only group admins control the ride's lifecycle
+  const isGroupAdmin = useGroupRole(activeRide?.groupId, currentUser.id) === "ADMIN"
+
   const {
     members: rideMembers,
+    rideStatus,
     isConnected,
+    isStreaming,
     error: updateError,
     lastUpdate,
     refreshUpdates,
   } = useRealTimeUpdates({
-    rideId: activeRide?.id || "",
+    rideId: activeRide && !isRideEnded ? activeRide.id : "",
     pollInterval: 3000,
   })
 
+  // Positions as drawn on the map, with implausible jumps filtered out
+  const displayedMembers = useFilteredMembers(rideMembers)
+
+  const { trails } = useRideTrails({
+    groupId: activeRide?.groupId,
+    rideId: activeRide?.id,
+    members: displayedMembers,
+  })
+
+  const offRoute = useOffRouteDetection({
+    members: displayedMembers,
+    route: activeRide?.route,
+    toleranceMeters: offRouteTolerance,
+    onLeaveRoute: (member, distance) => {
+      const isSelf = member.userId === currentUser.id
+      const who = isSelf ? "You are" : `${member.user.name} is`
+      const alertId = addAlert(`${who} ${formatDistance(distance)} off route`, "warning", 0)
+      offRouteAlertIdsRef.current.set(member.userId, alertId)
+      // The rider's own client records the excursion on the ride once, so it reaches members whose
+      // clients aren't watching and shows up in the replay
+      if (isSelf) {
+        sendServerAlert(`${member.user.name} is ${formatDistance(distance)} off route`, "location_update", "medium")
+      }
+    },
+    onRejoinRoute: (member) => {
+      const who = member.userId === currentUser.id ? "You" : member.user.name
+      addAlert(`${who} rejoined the route`, "info")
+    },
+  })
+
+  // Clear the warning once a member is back on route (or no longer tracked)
+  useEffect(() => {
+    offRouteAlertIdsRef.current.forEach((alertId, userId) => {
+      if (!(userId in offRoute)) {
+        removeAlert(alertId)
+        offRouteAlertIdsRef.current.delete(userId)
+      }
+    })
+  }, [offRoute, removeAlert])
+
+  // Each client reports its own rider's geofence crossings; everyone else hears about them through the
+  // server (status updates and alerts), so a crossing isn't announced once per group member
+  const geofenceOccupancy = useGeofenceEvents({
+    members: displayedMembers,
+    geofences: activeRide?.geofences,
+    onEvent: ({ member, geofence, type, initial }) => {
+      if (!activeRide || member.userId !== currentUser.id) return
+
+      const status = getStatusTransition(geofence, type, member.status)
+      if (status) {
+        apiClient
+          .updateRideMemberStatus(activeRide.id, { status })
+          .catch((err) => console.error("Error updating ride status:", err))
+      }
+      // Already inside when first seen: update the status quietly
+      if (!initial) {
+        showLocationAlert(member.user.name, describeGeofenceEvent(geofence, type))
+      }
+    },
+  })
+
+  const { etas, lastArrival } = useRiderEtas({
+    members: displayedMembers,
+    route: activeRide?.route,
+    geofences: activeRide?.geofences,
+  })
+
   useEffect(() => {
     initializeRide()
   }, [ride])
 
+  // Follow lifecycle changes made by an admin; an ended ride switches to the replay and a cancelled
+  // one stops sharing locations
+  useEffect(() => {
+    if (!rideStatus) return
+    setActiveRide((prev) =>
+      prev && !isFinalStatus(prev.status) && prev.status !== rideStatus ? { ...prev, status: rideStatus } : prev,
+    )
+    if (isFinalStatus(rideStatus)) {
+      setIsLocationTracking(false)
+    }
+  }, [rideStatus])
+
   useEffect(() => {
     if (updateError) {
       setError(updateError)
@@ -82,36 +232,100 @@ export function MapDashboard({ ride, currentUser, onBackToRides }: MapDashboardP
     try {
       setLoading(true)
 
+      let rideToJoin: Ride | null = null
+
       if (ride.type === "group") {
-        // Create a new ride for this group
-        const response = await apiClient.createRide({
-          groupId: ride.id,
-          name: ride.name || "Group Ride",
-          description: ride.description || "",
-          startLocation: "",
-          endLocation: "",
-        })
-
-        if (response.success) {
-          setActiveRide(response.data)
-          showSuccessAlert("Ride started successfully!")
+        // Join the group's ride if one is underway or about to start, so members don't each start their own
+        const ridesResponse = await apiClient.getGroupRides(ride.id)
+        rideToJoin = ridesResponse.success ? findActiveRide(ridesResponse.data) : null
+
+        if (rideToJoin) {
+          addAlert(
+            isUnderwayStatus(rideToJoin.status)
+              ? `Joined ${rideToJoin.name}, already in progress`
+              : `Joined ${rideToJoin.name}, which hasn't started yet`,
+            "info",
+          )
         } else {
-          setError("Failed to start ride")
-          showErrorAlert("Failed to start ride")
+          // Otherwise create one; the start-ride dialog supplies a plan (name, imported route), falling
+          // back to the group's details
+          const response = await apiClient.createRide({
+            groupId: ride.id,
+            name: ride.name || "Group Ride",
+            description: ride.description || "",
+            startLocation: "",
+            endLocation: "",
+            ...ride.plan,
+          })
+
+          if (response.success) {
+            rideToJoin = response.data
+            showSuccessAlert("Ride created")
+          } else {
+            setError("Failed to create ride")
+            showErrorAlert("Failed to create ride")
+          }
         }
       } else {
         // Existing ride
-        setActiveRide(ride)
+        rideToJoin = ride
+      }
+
+      if (rideToJoin) {
+        // Start from the organizer's default; each rider can still change it for themselves
+        if (rideToJoin.offRouteToleranceMeters) {
+          setOffRouteTolerance(rideToJoin.offRouteToleranceMeters)
+        }
+        // The ride exists from here on, whether or not joining it succeeds
+        setActiveRide(rideToJoin)
+        await joinActiveRide(rideToJoin)
       }
     } catch (err) {
-      setError("Failed to initialize ride")
-      showErrorAlert("Failed to initialize ride")
+      const message = getErrorMessage(err, "Failed to initialize ride")
+      setError(message)
+      showErrorAlert(message)
       console.error("Error initializing ride:", err)
     } finally {
       setLoading(false)
     }
   }
 
+  /**
+   * Register as a ride member so our position shows up in the roster. Ended and cancelled rides
+   * aren't joined. A failure is reported with a retry rather than closing the ride.
+   */
+  const joinActiveRide = async (rideToJoin: Ride) => {
+    if (isFinalStatus(rideToJoin.status)) return
+    try {
+      setIsJoining(true)
+      setJoinError("")
+      const response = await apiClient.joinRide(rideToJoin.id)
+      if (!response.success) {
+        setJoinError("Failed to join the ride; your location isn't shared with the group")
+      }
+    } catch (err) {
+      setJoinError(getErrorMessage(err, "Failed to join the ride; your location isn't shared with the group"))
+      console.error("Error joining ride:", err)
+    } finally {
+      setIsJoining(false)
+    }
+  }
+
+  /**
+   * Leave the ride roster and return to the group list.
+   * Leaving is best-effort; a failure shouldn't trap the user on the dashboard.
+   */
+  const handleBackToRides = async () => {
+    if (activeRide && !isRideEnded) {
+      try {
+        await apiClient.leaveRide(activeRide.id)
+      } catch (err) {
+        console.error("Error leaving ride:", err)
+      }
+    }
+    onBackToRides()
+  }
+
   const handleLocationUpdate = (location: { lat: number; lng: number }) => {
     setCurrentUserLocation(location)
   }
@@ -126,21 +340,122 @@ export function MapDashboard({ ride, currentUser, onBackToRides }: MapDashboardP
     }
   }
 
-  const handleEndRide = async () => {
+  /**
+   * Move the ride through its lifecycle and tell the group. Transitions the current status doesn't
+   * allow are refused before anything is sent.
+   */
+  const handleRideAction = async (action: RideAction) => {
     if (!activeRide) return
 
     try {
-      const response = await apiClient.endRide(activeRide.id)
+      getNextStatus(activeRide.status, action)
+      setPendingRideAction(action)
+      const response = await RIDE_ACTION_REQUESTS[action](activeRide.id)
+      if (response.success) {
+        await sendServerAlert(RIDE_ACTIONS[action].announcement, "status_change", "medium")
+        if (action === "end") {
+          setIsLocationTracking(false)
+        }
+        setActiveRide(response.data)
+      } else {
+        showErrorAlert(`Failed to ${action} ride`)
+      }
+    } catch (err) {
+      showErrorAlert(
+        err instanceof RideTransitionError ? err.message : getErrorMessage(err, `Failed to ${action} ride`),
+      )
+      console.error(`Error performing ride action "${action}":`, err)
+    } finally {
+      setPendingRideAction(null)
+    }
+  }
+
+  const handleToggleTrail = (userId: string) => {
+    setHiddenTrails((prev) => {
+      const next = new Set(prev)
+      if (next.has(userId)) {
+        next.delete(userId)
+      } else {
+        next.add(userId)
+      }
+      return next
+    })
+  }
+
+  // While editing the route, each map click appends a waypoint; while drawing a geofence it places
+  // the circle's center or adds a polygon corner
+  const handleMapClick = useCallback((position: { lat: number; lng: number }) => {
+    setRouteDraft((prev) =>
+      prev ? [...prev, { name: `Waypoint ${prev.length + 1}`, latitude: position.lat, longitude: position.lng }] : prev,
+    )
+    setGeofenceDraft((prev) =>
+      prev
+        ? { ...prev, points: prev.shapeType === "circle" ? [position] : [...prev.points, position] }
+        : prev,
+    )
+  }, [])
+
+  const handleSaveRoute = async () => {
+    if (!activeRide || !routeDraft) return
+
+    try {
+      setIsSavingRoute(true)
+      const route = routeDraft.map((waypoint, index) => ({
+        ...waypoint,
+        name: waypoint.name.trim() || `Waypoint ${index + 1}`,
+      }))
+      const response = await apiClient.updateRide(activeRide.id, { route })
       if (response.success) {
-        showSuccessAlert("Ride ended successfully")
-        onBackToRides()
+        setActiveRide(response.data)
+        setRouteDraft(null)
+        showSuccessAlert("Route saved")
       } else {
-        showErrorAlert("Failed to end ride")
+        showErrorAlert("Failed to save route")
+      }
+    } catch (err) {
+      showErrorAlert(getErrorMessage(err, "Failed to save route"))
+      console.error("Error saving route:", err)
+    } finally {
+      setIsSavingRoute(false)
+    }
+  }
+
+  const saveGeofences = async (geofences: Geofence[]) => {
+    if (!activeRide) return false
+
+    try {
+      setIsSavingGeofences(true)
+      const response = await apiClient.updateRide(activeRide.id, { geofences })
+      if (response.success) {
+        setActiveRide(response.data)
+        return true
       }
+      showErrorAlert("Failed to save geofences")
     } catch (err) {
-      showErrorAlert("Failed to end ride")
-      console.error("Error ending ride:", err)
+      showErrorAlert(getErrorMessage(err, "Failed to save geofences"))
+      console.error("Error saving geofences:", err)
+    } finally {
+      setIsSavingGeofences(false)
     }
+    return false
+  }
+
+  const handleSaveGeofence = async () => {
+    if (!activeRide || !geofenceDraft) return
+    const geofence = geofenceFromDraft(geofenceDraft, `geofence-${Date.now().toString(36)}`)
+    if (!geofence) return
+
+    if (await saveGeofences([...(activeRide.geofences ?? []), geofence])) {
+      setGeofenceDraft(null)
+      showSuccessAlert(`${geofence.name} added`)
+    }
+  }
+
+  const draftGeofence = geofenceDraft ? geofencePreview(geofenceDraft) : null
+
+  const handleDeleteGeofence = (geofenceId: string) => {
+    if (!activeRide) return
+    saveGeofences((activeRide.geofences ?? []).filter((fence) => fence.id !== geofenceId))
   }
 
   const handleSendEmergencyAlert = () => {
@@ -148,6 +463,15 @@ export function MapDashboard({ ride, currentUser, onBackToRides }: MapDashboardP
     sendEmergencyAlert(message)
   }
 
+  const formatClockTime = (date: Date) => date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })
+
+  // "4.2km to go · ETA 14:32"
+  const describeEta = (eta: RiderEta) =>
+    `${formatDistance(eta.distanceRemaining)} to go · ETA ${eta.arrivalTime ? formatClockTime(eta.arrivalTime) : "—"}`
+
+  const describeNextWaypoint = ({ nextWaypoint }: RiderEta) =>
+    nextWaypoint ? `Next: ${nextWaypoint.name} (${formatDistance(nextWaypoint.distance)})` : null
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case "arrived":
@@ -156,24 +480,13 @@ export function MapDashboard({ ride, currentUser, onBackToRides }: MapDashboardP
         return "bg-primary"
       case "waiting":
         return "bg-yellow-500"
+      case "left":
+        return "bg-gray-400"
       default:
         return "bg-gray-500"
     }
   }
 
-  const getStatusText = (status: string) => {
-    switch (status) {
-      case "arrived":
-        return "Arrived"
-      case "on-route":
-        return "On Route"
-      case "waiting":
-        return "Waiting"
-      default:
-        return "Unknown"
-    }
-  }
-
   if (loading) {
     return (
       <div className="h-screen bg-background flex items-center justify-center">
@@ -203,123 +516,215 @@ export function MapDashboard({ ride, currentUser, onBackToRides }: MapDashboardP
       {/* Header */}
       <header className="bg-card border-b border-border p-4 flex items-center justify-between">
         <div className="flex items-center gap-4">
-          <Button variant="ghost" size="sm" onClick={onBackToRides}>
+          <Button variant="ghost" size="sm" onClick={handleBackToRides}>
             <ArrowLeft className="h-4 w-4 mr-2" />
             Back
           </Button>
           <div className="flex items-center gap-2">
             <MapPin className="h-6 w-6 text-primary" />
             <div>
-              <h1 className="text-xl font-bold text-primary">{ride.name}</h1>
+              <h1 className="text-xl font-bold text-primary">{activeRide.name}</h1>
               <p className="text-xs text-muted-foreground">
-                {activeRide.endLocation ? `→ ${activeRide.endLocation}` : ""}
+                {describeRoute(activeRide.route) ?? (activeRide.endLocation ? `→ ${activeRide.endLocation}` : "")}
               </p>
             </div>
           </div>
         </div>
-        <div className="flex items-center gap-4">
-          <div className="flex items-center gap-2 text-sm text-muted-foreground">
-            <Users className="h-4 w-4" />
-            <span>{rideMembers.length} members</span>
-            <Badge variant={isConnected ? "default" : "destructive"} className="text-xs">
-              {isConnected ? "Live" : "Offline"}
-            </Badge>
+        {isRideEnded ? (
+          <div className="flex items-center gap-4">
+            <Badge variant="secondary">Replay</Badge>
+            <RideExportDialog ride={activeRide} />
           </div>
-          {alerts.length > 0 && (
-            <div className="flex items-center gap-1 text-sm text-muted-foreground">
-              <Bell className="h-4 w-4" />
-              <Badge variant="secondary" className="text-xs">
-                {alerts.length}
+        ) : (
+          <div className="flex items-center gap-4">
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Users className="h-4 w-4" />
+              <Badge variant={activeRide.status === "PAUSED" ? "secondary" : "outline"} className="text-xs">
+                {RIDE_STATUS_LABELS[activeRide.status]}
+              </Badge>
+              <span>{rideMembers.length} members</span>
+              {lastArrival && <span>· Last rider ~{formatClockTime(lastArrival)}</span>}
+              <Badge variant={isConnected ? "default" : "destructive"} className="text-xs">
+                {isConnected ? (isStreaming ? "Live" : "Polling") : "Offline"}
               </Badge>
             </div>
-          )}
-          <Button variant="ghost" size="sm" onClick={refreshUpdates}>
-            <RefreshCw className="h-4 w-4" />
-          </Button>
-          <Button variant="outline" size="sm" onClick={() => setShowLocationTracker(!showLocationTracker)}>
-            <Settings className="h-4 w-4 mr-2" />
-            Location
-          </Button>
-          <Button variant="outline" size="sm" onClick={handleEndRide}>
-            <LogOut className="h-4 w-4 mr-2" />
-            End Ride
-          </Button>
-        </div>
+            {alerts.length > 0 && (
+              <div className="flex items-center gap-1 text-sm text-muted-foreground">
+                <Bell className="h-4 w-4" />
+                <Badge variant="secondary" className="text-xs">
+                  {alerts.length}
+                </Badge>
+              </div>
+            )}
+            <Button variant="ghost" size="sm" onClick={refreshUpdates}>
+              <RefreshCw className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setShowLocationTracker(!showLocationTracker)}>
+              <Settings className="h-4 w-4 mr-2" />
+              Location
+            </Button>
+            <RideExportDialog ride={activeRide} />
+            {isGroupAdmin && (
+              <RideControls status={activeRide.status} pendingAction={pendingRideAction} onAction={handleRideAction} />
+            )}
+          </div>
+        )}
       </header>
 
       {error && (
         <div className="p-3 text-sm text-red-600 bg-red-50 border border-red-200 rounded-md mx-4 mt-2">{error}</div>
       )}
+      {joinError && activeRide && (
+        <div className="p-3 text-sm text-red-600 bg-red-50 border border-red-200 rounded-md mx-4 mt-2 flex items-center justify-between gap-2">
+          <span>{joinError}</span>
+          <Button variant="outline" size="sm" onClick={() => joinActiveRide(activeRide)} disabled={isJoining}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${isJoining ? "animate-spin" : ""}`} />
+            Retry
+          </Button>
+        </div>
+      )}
 
-      <div className="flex-1 flex">
-        {/* Sidebar with member list and location tracker */}
-        <aside className="w-80 bg-card border-r border-border p-4 overflow-y-auto space-y-4">
-          {showLocationTracker && (
-            <LocationTracker
-              rideId={activeRide.id}
-              onLocationUpdate={handleLocationUpdate}
-              isTracking={isLocationTracking}
-              onToggleTracking={handleToggleLocationTracking}
+      {isRideEnded ? (
+        <RideReplay ride={activeRide} />
+      ) : (
+        <div className="flex-1 flex">
+          {/* Sidebar with member list and location tracker */}
+          <aside className="w-80 bg-card border-r border-border p-4 overflow-y-auto space-y-4">
+            {showLocationTracker && (
+              <LocationTracker
+                rideId={activeRide.id}
+                rideStatus={activeRide.status}
+                onLocationUpdate={handleLocationUpdate}
+                isTracking={isLocationTracking}
+                onToggleTracking={handleToggleLocationTracking}
+              />
+            )}
+
+            <RoutePanel
+              route={activeRide.route ?? []}
+              draft={routeDraft}
+              canEdit={activeRide.createdBy === currentUser.id && !geofenceDraft}
+              isSaving={isSavingRoute}
+              offRouteTolerance={offRouteTolerance}
+              onOffRouteToleranceChange={setOffRouteTolerance}
+              onEdit={() => setRouteDraft(activeRide.route ?? [])}
+              onDraftChange={setRouteDraft}
+              onSave={handleSaveRoute}
+              onCancel={() => setRouteDraft(null)}
             />
-          )}
-
-          <Card>
-            <CardHeader>
-              <CardTitle className="text-lg flex items-center justify-between">
-                Ride Members
-                {lastUpdate && (
-                  <span className="text-xs text-muted-foreground font-normal">
-                    Updated {lastUpdate.toLocaleTimeString()}
-                  </span>
-                )}
-              </CardTitle>
-            </CardHeader>
-            <CardContent className="space-y-3">
-              {rideMembers.map((member) => (
-                <div key={member.id} className="flex items-center justify-between p-3 bg-secondary rounded-lg">
-                  <div className="flex-1">
-                    <div className="font-medium text-sm flex items-center gap-2">
-                      {member.user.name}
-                      {member.user.id === currentUser.id && (
-                        <Badge variant="outline" className="text-xs">
-                          You
-                        </Badge>
+
+            <GeofencePanel
+              geofences={activeRide.geofences ?? []}
+              draft={geofenceDraft}
+              canEdit={activeRide.createdBy === currentUser.id && !routeDraft}
+              isSaving={isSavingGeofences}
+              occupants={Object.values(geofenceOccupancy).reduce<Record<string, number>>((counts, fenceIds) => {
+                fenceIds.forEach((id) => {
+                  counts[id] = (counts[id] ?? 0) + 1
+                })
+                return counts
+              }, {})}
+              onAdd={() => setGeofenceDraft(EMPTY_GEOFENCE_DRAFT)}
+              onDraftChange={setGeofenceDraft}
+              onSave={handleSaveGeofence}
+              onCancel={() => setGeofenceDraft(null)}
+              onDelete={handleDeleteGeofence}
+            />
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg flex items-center justify-between">
+                  Ride Members
+                  {lastUpdate && (
+                    <span className="text-xs text-muted-foreground font-normal">
+                      Updated {lastUpdate.toLocaleTimeString()}
+                    </span>
+                  )}
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {rideMembers.map((member) => (
+                  <div key={member.id} className="flex items-center justify-between p-3 bg-secondary rounded-lg">
+                    <div className="flex-1">
+                      <div className="font-medium text-sm flex items-center gap-2">
+                        <span
+                          className="inline-block h-2.5 w-2.5 rounded-full"
+                          style={{ backgroundColor: getMemberColor(member.userId) }}
+                        />
+                        {member.user.name}
+                        {member.user.id === currentUser.id && (
+                          <Badge variant="outline" className="text-xs">
+                            You
+                          </Badge>
+                        )}
+                      </div>
+                      <div className="text-xs text-muted-foreground">@{member.user.username}</div>
+                      <div className="text-xs text-muted-foreground mt-1">
+                        {member.lastLocationUpdate
+                          ? `Updated ${new Date(member.lastLocationUpdate).toLocaleTimeString()}`
+                          : "No location data"}
+                      </div>
+                      {etas[member.userId] && (
+                        <div className="text-xs text-muted-foreground">
+                          {describeEta(etas[member.userId])}
+                          {etas[member.userId].nextWaypoint && <div>{describeNextWaypoint(etas[member.userId])}</div>}
+                        </div>
                       )}
                     </div>
-                    <div className="text-xs text-muted-foreground">@{member.user.username}</div>
-                    <div className="text-xs text-muted-foreground mt-1">
-                      {member.lastLocationUpdate
-                        ? `Updated ${new Date(member.lastLocationUpdate).toLocaleTimeString()}`
-                        : "No location data"}
+                    <div className="flex flex-col items-end gap-2">
+                      <Badge className={`${getStatusColor(member.status)} text-white`}>
+                        {getMemberStatusLabel(member.status)}
+                      </Badge>
+                      {member.userId in offRoute && (
+                        <Badge variant="destructive" className="text-xs">
+                          {formatDistance(offRoute[member.userId])} off route
+                        </Badge>
+                      )}
+                      <label className="flex items-center gap-1 text-xs text-muted-foreground">
+                        Trail
+                        <Switch
+                          checked={!hiddenTrails.has(member.userId)}
+                          onCheckedChange={() => handleToggleTrail(member.userId)}
+                        />
+                      </label>
                     </div>
                   </div>
-                  <Badge className={`${getStatusColor(member.status)} text-white`}>
-                    {getStatusText(member.status)}
-                  </Badge>
-                </div>
-              ))}
-            </CardContent>
-          </Card>
-        </aside>
-
-        {/* Main map area */}
-        <main className="flex-1 relative">
-          <GoogleMap
-            apiKey={GOOGLE_MAPS_API_KEY}
-            members={rideMembers
-              .filter((member) => typeof member.latitude === "number" && typeof member.longitude === "number")
-              .map((member) => ({
-                id: member.id,
-                name: member.user.name,
-                username: member.user.username,
-                email: member.user.email,
-                status: member.status,
-                location: { lat: member.latitude, lng: member.longitude },
-                lastUpdate: new Date(member.lastLocationUpdate || Date.now()),
-              }))}
-          />
-        </main>
-      </div>
+                ))}
+              </CardContent>
+            </Card>
+          </aside>
+
+          {/* Main map area */}
+          <main className="flex-1 relative">
+            <RideMap
+              members={displayedMembers.flatMap((member) =>
+                // Members who joined but haven't reported a position yet have no marker
+                typeof member.latitude === "number" && typeof member.longitude === "number"
+                  ? [
+                      {
+                        id: member.id,
+                        name: member.user.name,
+                        username: member.user.username,
+                        status: member.status,
+                        location: { lat: member.latitude, lng: member.longitude },
+                        accuracy: member.accuracy,
+                        speed: member.speed,
+                        lastUpdate: new Date(member.lastLocationUpdate || Date.now()),
+                        details: etas[member.userId] ? [describeEta(etas[member.userId])] : undefined,
+                      },
+                    ]
+                  : [],
+              )}
+              trails={Object.entries(trails)
+                .filter(([userId, path]) => !hiddenTrails.has(userId) && path.length > 1)
+                .map(([userId, path]) => ({ id: userId, color: getMemberColor(userId), path }))}
+              route={routeDraft ?? activeRide.route}
+              geofences={draftGeofence ? [...(activeRide.geofences ?? []), draftGeofence] : activeRide.geofences}
+              onMapClick={routeDraft || geofenceDraft ? handleMapClick : undefined}
+            />
+          </main>
+        </div>
+      )}
 
       <AlertCenter alerts={alerts} onDismiss={removeAlert} onSendEmergencyAlert={handleSendEmergencyAlert} />
     </div>
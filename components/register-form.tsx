@@ -7,6 +7,7 @@ import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { useAuth } from "@/hooks/use-auth"
+import { ApiError, getErrorMessage, type FieldErrors } from "@/lib/api"
 
 interface RegisterFormProps {
   onSwitchToLogin: () => void
@@ -20,11 +21,14 @@ export function RegisterForm({ onSwitchToLogin }: RegisterFormProps) {
     password: "",
   })
   const [error, setError] = useState("")
+  // Per-field messages from the backend, e.g. "Username already taken"
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({})
   const { register, isLoading } = useAuth()
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     setError("")
+    setFieldErrors({})
 
     try {
       await register({
@@ -34,7 +38,11 @@ export function RegisterForm({ onSwitchToLogin }: RegisterFormProps) {
         password: formData.password,
       })
     } catch (err) {
-      setError(err instanceof Error ? err.message : "Registration failed")
+      if (err instanceof ApiError && Object.keys(err.fieldErrors).some((field) => field in formData)) {
+        setFieldErrors(err.fieldErrors)
+        return
+      }
+      setError(getErrorMessage(err, err instanceof Error ? err.message : "Registration failed"))
     }
   }
 
@@ -43,6 +51,13 @@ export function RegisterForm({ onSwitchToLogin }: RegisterFormProps) {
       ...prev,
       [e.target.name]: e.target.value,
     }))
+    // Clear a field's server error once the user edits it
+    if (fieldErrors[e.target.name]) {
+      setFieldErrors((prev) => {
+        const { [e.target.name]: _removed, ...rest } = prev
+        return rest
+      })
+    }
   }
 
   return (
@@ -59,6 +74,7 @@ export function RegisterForm({ onSwitchToLogin }: RegisterFormProps) {
             <Input
               id="name"
               name="name"
+              aria-invalid={!!fieldErrors.name}
               type="text"
               placeholder="Enter your full name"
               value={formData.name}
@@ -66,12 +82,14 @@ export function RegisterForm({ onSwitchToLogin }: RegisterFormProps) {
               required
               disabled={isLoading}
             />
+            {fieldErrors.name && <p className="text-sm text-red-600">{fieldErrors.name}</p>}
           </div>
           <div className="space-y-2">
             <Label htmlFor="username">Username</Label>
             <Input
               id="username"
               name="username"
+              aria-invalid={!!fieldErrors.username}
               type="text"
               placeholder="Choose a username"
               value={formData.username}
@@ -79,12 +97,14 @@ export function RegisterForm({ onSwitchToLogin }: RegisterFormProps) {
               required
               disabled={isLoading}
             />
+            {fieldErrors.username && <p className="text-sm text-red-600">{fieldErrors.username}</p>}
           </div>
           <div className="space-y-2">
             <Label htmlFor="email">Email</Label>
             <Input
               id="email"
               name="email"
+              aria-invalid={!!fieldErrors.email}
               type="email"
               placeholder="Enter your email"
               value={formData.email}
@@ -92,12 +112,14 @@ export function RegisterForm({ onSwitchToLogin }: RegisterFormProps) {
               required
               disabled={isLoading}
             />
+            {fieldErrors.email && <p className="text-sm text-red-600">{fieldErrors.email}</p>}
           </div>
           <div className="space-y-2">
             <Label htmlFor="password">Password</Label>
             <Input
               id="password"
               name="password"
+              aria-invalid={!!fieldErrors.password}
               type="password"
               placeholder="Create a password"
               value={formData.password}
@@ -105,6 +127,7 @@ export function RegisterForm({ onSwitchToLogin }: RegisterFormProps) {
               required
               disabled={isLoading}
             />
+            {fieldErrors.password && <p className="text-sm text-red-600">{fieldErrors.password}</p>}
           </div>
           <Button type="submit" className="w-full" disabled={isLoading}>
             {isLoading ? "Creating Account..." : "Create Account"}
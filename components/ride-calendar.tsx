@@ -0,0 +1,193 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Calendar } from "@/components/ui/calendar"
+import { Badge } from "@/components/ui/badge"
+import { CalendarArrowDown, CalendarDays, CalendarX, MapPin, Pencil, Repeat } from "lucide-react"
+import { describeRoute } from "@/lib/route"
+import { getIcsFileName, ICS_MIME_TYPE, toIcsCalendar } from "@/lib/calendar-export"
+import { downloadFile } from "@/lib/track-export"
+import { countRsvps, getDepartureTime, RSVP_OPTIONS } from "@/lib/ride-schedule"
+import type { Group, Ride, RideRsvp, RsvpResponse, User } from "@/lib/api"
+
+interface RideCalendarProps {
+  // Scheduled rides, soonest first
+  rides: Ride[]
+  // RSVPs keyed by ride id
+  rsvps: Record<string, RideRsvp[]>
+  groups: Group[]
+  currentUser: User
+  onRespond: (rideId: string, response: RsvpResponse) => Promise<void>
+  // Offered to organizers; rides without them are read-only
+  onEdit?: (ride: Ride) => void
+  onCancel?: (ride: Ride) => void
+}
+
+const isSameDay = (a: Date, b: Date) =>
+  a.getFullYear() === b.getFullYear() && a.getMonth() === b.getMonth() && a.getDate() === b.getDate()
+
+const formatDeparture = (time: number) =>
+  new Date(time).toLocaleString([], {
+    weekday: "short",
+    day: "numeric",
+    month: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+  })
+
+/**
+ * Calendar of scheduled rides across the user's groups. Days with a ride are highlighted; picking one
+ * narrows the list to that day's rides, where members RSVP or add a ride to their own calendar.
+ */
+export function RideCalendar({ rides, rsvps, groups, currentUser, onRespond, onEdit, onCancel }: RideCalendarProps) {
+  const [selectedDay, setSelectedDay] = useState<Date | undefined>(undefined)
+  // Ride whose RSVP is being saved
+  const [pendingRideId, setPendingRideId] = useState<string | null>(null)
+
+  const rideDays = useMemo(
+    () =>
+      rides.flatMap((ride) => {
+        const departure = getDepartureTime(ride)
+        return departure ? [new Date(departure)] : []
+      }),
+    [rides],
+  )
+  const groupNames = useMemo(() => new Map(groups.map((group) => [group.id, group.name])), [groups])
+
+  const listedRides = selectedDay
+    ? rides.filter((ride) => {
+        const departure = getDepartureTime(ride)
+        return departure !== null && isSameDay(new Date(departure), selectedDay)
+      })
+    : rides
+
+  // Single-event .ics file the member can add to their own calendar
+  const handleDownload = (ride: Ride) => {
+    const calendar = toIcsCalendar([ride], {
+      calendarName: groupNames.get(ride.groupId) ?? ride.name,
+      appUrl: window.location.origin,
+    })
+    downloadFile(getIcsFileName(ride), calendar, ICS_MIME_TYPE)
+  }
+
+  const handleRespond = async (rideId: string, response: RsvpResponse) => {
+    try {
+      setPendingRideId(rideId)
+      await onRespond(rideId, response)
+    } finally {
+      setPendingRideId(null)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarDays className="h-5 w-5" />
+          Scheduled Rides
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="flex flex-col md:flex-row gap-6">
+        <Calendar
+          mode="single"
+          selected={selectedDay}
+          onSelect={setSelectedDay}
+          modifiers={{ scheduled: rideDays }}
+          modifiersClassNames={{ scheduled: "font-bold text-primary underline" }}
+          className="rounded-md border self-start"
+        />
+
+        <div className="flex-1 space-y-3">
+          {selectedDay && (
+            <div className="flex items-center justify-between text-sm">
+              <span className="font-medium">{selectedDay.toLocaleDateString([], { dateStyle: "full" })}</span>
+              <Button variant="ghost" size="sm" onClick={() => setSelectedDay(undefined)}>
+                Show all
+              </Button>
+            </div>
+          )}
+
+          {listedRides.length === 0 && (
+            <p className="text-sm text-muted-foreground">
+              {selectedDay ? "No rides scheduled on this day" : "No rides scheduled"}
+            </p>
+          )}
+
+          {listedRides.map((ride) => {
+            const rideRsvps = rsvps[ride.id] ?? []
+            const counts = countRsvps(rideRsvps)
+            const myResponse = rideRsvps.find((rsvp) => rsvp.userId === currentUser.id)?.response
+            const departure = getDepartureTime(ride)
+            return (
+              <div key={ride.id} className="p-3 bg-secondary rounded-lg space-y-2">
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium truncate">{ride.name}</span>
+                      {ride.templateId && (
+                        <Badge variant="outline" className="shrink-0">
+                          <Repeat className="h-3 w-3 mr-1" />
+                          Series
+                        </Badge>
+                      )}
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {groupNames.get(ride.groupId) ?? "Group ride"}
+                      {departure ? ` · ${formatDeparture(departure)}` : ""}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-1 shrink-0">
+                    <span className="text-xs text-muted-foreground">
+                      {counts.going} going · {counts.maybe} maybe
+                    </span>
+                    <Button variant="ghost" size="sm" onClick={() => handleDownload(ride)} aria-label="Add to calendar">
+                      <CalendarArrowDown className="h-4 w-4" />
+                    </Button>
+                    {onEdit && (
+                      <Button variant="ghost" size="sm" onClick={() => onEdit(ride)} aria-label="Edit ride">
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                    )}
+                    {onCancel && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => onCancel(ride)}
+                        className="text-red-500 hover:text-red-700"
+                        aria-label="Cancel ride"
+                      >
+                        <CalendarX className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+                {(ride.startLocation || ride.route) && (
+                  <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                    <MapPin className="h-3 w-3" />
+                    {[ride.startLocation, describeRoute(ride.route)].filter(Boolean).join(" · ")}
+                  </div>
+                )}
+                <div className="flex gap-2">
+                  {(Object.keys(RSVP_OPTIONS) as RsvpResponse[]).map((response) => (
+                    <Button
+                      key={response}
+                      size="sm"
+                      variant={myResponse === response ? "default" : "outline"}
+                      onClick={() => handleRespond(ride.id, response)}
+                      disabled={pendingRideId === ride.id}
+                      className="flex-1"
+                    >
+                      {RSVP_OPTIONS[response].label}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+            )
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,76 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import { Play, Pause, LogOut } from "lucide-react"
+import { getAvailableActions, RIDE_ACTIONS, type RideAction, type RideStatus } from "@/lib/ride-lifecycle"
+
+const ACTION_ICONS: Record<RideAction, typeof Play> = {
+  start: Play,
+  pause: Pause,
+  resume: Play,
+  end: LogOut,
+}
+
+interface RideControlsProps {
+  status: RideStatus
+  // Action currently being sent, if any
+  pendingAction: RideAction | null
+  onAction: (action: RideAction) => void
+}
+
+/**
+ * Header buttons for the lifecycle actions available from the ride's current status. Every action is
+ * confirmed first, since it changes the ride for the whole group.
+ */
+export function RideControls({ status, pendingAction, onAction }: RideControlsProps) {
+  const [confirming, setConfirming] = useState<RideAction | null>(null)
+
+  const handleConfirm = () => {
+    if (confirming) onAction(confirming)
+    setConfirming(null)
+  }
+
+  return (
+    <>
+      {getAvailableActions(status).map((action) => {
+        const Icon = ACTION_ICONS[action]
+        return (
+          <Button
+            key={action}
+            variant={action === "start" ? "default" : "outline"}
+            size="sm"
+            onClick={() => setConfirming(action)}
+            disabled={pendingAction !== null}
+          >
+            <Icon className="h-4 w-4 mr-2" />
+            {pendingAction === action ? "Updating..." : RIDE_ACTIONS[action].label}
+          </Button>
+        )
+      })}
+
+      <AlertDialog open={confirming !== null} onOpenChange={(open) => !open && setConfirming(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{confirming && RIDE_ACTIONS[confirming].label}</AlertDialogTitle>
+            <AlertDialogDescription>{confirming && RIDE_ACTIONS[confirming].confirm}</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleConfirm}>{confirming && RIDE_ACTIONS[confirming].label}</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  )
+}
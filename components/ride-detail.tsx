@@ -0,0 +1,222 @@
+"use client"
+
+import { useMemo } from "react"
+import { useRouter } from "next/navigation"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { ArrowLeft, Bell, Info, MapPin, Users } from "lucide-react"
+import { RideMap, type RideMapMember } from "@/components/ride-map"
+import { RideExportDialog } from "@/components/ride-export-dialog"
+import { RideSummary } from "@/components/ride-summary"
+import { useRideDetail } from "@/hooks/use-ride-detail"
+import { getMemberColor } from "@/lib/member-colors"
+import { getReplayBounds } from "@/lib/ride-replay"
+import { formatElapsed } from "@/lib/ride-history"
+import { getMemberStatusLabel, getSeverityColor, isFinalStatus, RIDE_STATUS_LABELS } from "@/lib/ride-lifecycle"
+import { describeRoute } from "@/lib/route"
+
+interface RideDetailProps {
+  rideId: string
+}
+
+const formatDateTime = (date: Date) =>
+  date.toLocaleString([], { day: "numeric", month: "short", year: "numeric", hour: "2-digit", minute: "2-digit" })
+
+/**
+ * Summary of a single ride: when and where it went, who took part, the alerts raised during it,
+ * each member's recorded track on the map and the statistics computed from those tracks.
+ */
+export function RideDetail({ rideId }: RideDetailProps) {
+  const router = useRouter()
+  const { ride, group, members, alerts, tracks, isLoading, error } = useRideDetail(rideId)
+
+  const timeline = useMemo(() => getReplayBounds(tracks), [tracks])
+
+  // Each member at their last recorded position, with their whole track
+  const mapMembers = useMemo<RideMapMember[]>(
+    () =>
+      tracks.map((track) => {
+        const last = track.samples[track.samples.length - 1]
+        const status = members.find((member) => member.userId === track.userId)?.status ?? "arrived"
+        return {
+          id: track.userId,
+          name: track.user.name,
+          username: track.user.username,
+          status,
+          location: { lat: last.lat, lng: last.lng },
+          accuracy: last.accuracy,
+          lastUpdate: new Date(last.time),
+        }
+      }),
+    [tracks, members],
+  )
+
+  const trails = useMemo(
+    () =>
+      tracks
+        .filter((track) => track.samples.length > 1)
+        .map((track) => ({
+          id: track.userId,
+          color: getMemberColor(track.userId),
+          path: track.samples.map((sample) => ({ lat: sample.lat, lng: sample.lng })),
+        })),
+    [tracks],
+  )
+
+  const bounds = useMemo(() => trails.flatMap((trail) => trail.path), [trails])
+
+  if (isLoading) {
+    return (
+      <div className="h-screen bg-background flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
+          <p className="text-muted-foreground">Loading ride...</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (error || !ride) {
+    return (
+      <div className="h-screen bg-background flex flex-col items-center justify-center gap-4">
+        <p className="text-muted-foreground">{error || "Ride not found"}</p>
+        <Button variant="outline" onClick={() => router.push("/rides")}>
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Back to History
+        </Button>
+      </div>
+    )
+  }
+
+  const summary: Array<[string, string]> = [
+    ["Group", group?.name ?? "—"],
+    ["Created", formatDateTime(new Date(ride.createdAt))],
+    ["Duration", timeline ? formatElapsed(timeline.end - timeline.start) : "—"],
+    ["Route", describeRoute(ride.route) ?? ([ride.startLocation, ride.endLocation].filter(Boolean).join(" → ") || "—")],
+    ["Participants", String(members.length)],
+    ["Alerts", String(alerts.length)],
+  ]
+
+  return (
+    <div className="min-h-screen bg-background p-6">
+      <div className="max-w-6xl mx-auto space-y-6">
+        <div className="flex items-start justify-between">
+          <div>
+            <Button variant="outline" onClick={() => router.push("/rides")} className="mb-4">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to History
+            </Button>
+            <div className="flex items-center gap-2">
+              <MapPin className="h-6 w-6 text-primary" />
+              <h1 className="text-2xl font-bold text-primary">{ride.name}</h1>
+              <Badge variant={isFinalStatus(ride.status) ? "secondary" : "default"}>{RIDE_STATUS_LABELS[ride.status]}</Badge>
+            </div>
+            {ride.description && <p className="text-muted-foreground mt-1">{ride.description}</p>}
+          </div>
+          <RideExportDialog ride={ride} />
+        </div>
+
+        <div className="grid gap-6 lg:grid-cols-3">
+          <div className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg flex items-center gap-2">
+                  <Info className="h-5 w-5" />
+                  Summary
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <dl className="space-y-2 text-sm">
+                  {summary.map(([label, value]) => (
+                    <div key={label} className="flex justify-between gap-4">
+                      <dt className="text-muted-foreground">{label}</dt>
+                      <dd className="font-medium text-right">{value}</dd>
+                    </div>
+                  ))}
+                </dl>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg flex items-center gap-2">
+                  <Users className="h-5 w-5" />
+                  Participants ({members.length})
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {members.length === 0 && <p className="text-sm text-muted-foreground">Nobody joined this ride</p>}
+                {members.map((member) => (
+                  <div key={member.id} className="flex items-center justify-between gap-2">
+                    <div className="flex items-center gap-2 min-w-0">
+                      <span
+                        className="inline-block h-2.5 w-2.5 rounded-full shrink-0"
+                        style={{ backgroundColor: getMemberColor(member.userId) }}
+                      />
+                      <div className="min-w-0">
+                        <div className="font-medium truncate">{member.user.name}</div>
+                        <div className="text-xs text-muted-foreground">
+                          Joined {new Date(member.joinedAt).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}
+                        </div>
+                      </div>
+                    </div>
+                    <Badge variant="outline">{getMemberStatusLabel(member.status)}</Badge>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          </div>
+
+          <div className="lg:col-span-2 space-y-6">
+            <Card className="overflow-hidden">
+              <div className="h-96 relative">
+                {trails.length > 0 ? (
+                  <RideMap
+                    members={mapMembers}
+                    trails={trails}
+                    route={ride.route}
+                    geofences={ride.geofences}
+                    bounds={bounds}
+                  />
+                ) : (
+                  <div className="h-full flex items-center justify-center">
+                    <p className="text-sm text-muted-foreground">No location history was recorded for this ride</p>
+                  </div>
+                )}
+              </div>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg flex items-center gap-2">
+                  <Bell className="h-5 w-5" />
+                  Alerts ({alerts.length})
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {alerts.length === 0 && <p className="text-sm text-muted-foreground">No alerts during this ride</p>}
+                {alerts.map((alert) => (
+                  <div key={alert.id} className="flex items-start gap-3 p-2 rounded-lg bg-secondary text-sm">
+                    <span className={`mt-1.5 h-2 w-2 rounded-full shrink-0 ${getSeverityColor(alert.severity)}`} />
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="font-medium capitalize">{alert.type.replace("_", " ")}</span>
+                        <span className="text-xs text-muted-foreground">
+                          {new Date(alert.createdAt).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}
+                        </span>
+                      </div>
+                      <div className="text-xs text-muted-foreground">{alert.message}</div>
+                    </div>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+
+        {trails.length > 0 && <RideSummary ride={ride} tracks={tracks} />}
+      </div>
+    </div>
+  )
+}
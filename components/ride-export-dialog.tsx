@@ -0,0 +1,129 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Download } from "lucide-react"
+import { apiClient, getErrorMessage, type Ride } from "@/lib/api"
+import { buildReplayTracks, type ReplayTrack } from "@/lib/ride-replay"
+import {
+  EXPORT_FORMATS,
+  downloadFile,
+  exportRide,
+  getExportFileName,
+  type ExportFormat,
+} from "@/lib/track-export"
+
+// Scope value for a single file with every member's track
+const ALL_MEMBERS = "all"
+
+interface RideExportDialogProps {
+  ride: Ride
+}
+
+/**
+ * Export a ride's recorded tracks and planned route as GPX, KML or GeoJSON.
+ * Tracks are loaded when the dialog opens and exported either merged into one file or for one member.
+ */
+export function RideExportDialog({ ride }: RideExportDialogProps) {
+  const [open, setOpen] = useState(false)
+  const [format, setFormat] = useState<ExportFormat>("gpx")
+  const [scope, setScope] = useState(ALL_MEMBERS)
+  const [tracks, setTracks] = useState<ReplayTrack[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState("")
+
+  const loadTracks = async () => {
+    try {
+      setIsLoading(true)
+      setError("")
+      const response = await apiClient.getGroupLocationUpdatesForRide(ride.groupId, ride.id)
+      if (response.success) {
+        setTracks(buildReplayTracks(response.data))
+      } else {
+        setError("Failed to load ride tracks")
+      }
+    } catch (err) {
+      setError(getErrorMessage(err, "Failed to load ride tracks"))
+      console.error("Error loading ride tracks:", err)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    setOpen(nextOpen)
+    if (nextOpen) {
+      setScope(ALL_MEMBERS)
+      loadTracks()
+    }
+  }
+
+  const handleDownload = () => {
+    const selected = scope === ALL_MEMBERS ? tracks : tracks.filter((track) => track.userId === scope)
+    const member = selected.length === 1 && scope !== ALL_MEMBERS ? selected[0].user.username : undefined
+    const content = exportRide(format, ride, selected, ride.route)
+    downloadFile(getExportFileName(ride, format, member), content, EXPORT_FORMATS[format].mimeType)
+    setOpen(false)
+  }
+
+  const hasData = tracks.length > 0 || (ride.route?.length ?? 0) > 0
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Download className="h-4 w-4 mr-2" />
+          Export
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Export Ride</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Format</Label>
+            <Select value={format} onValueChange={(value) => setFormat(value as ExportFormat)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map((key) => (
+                  <SelectItem key={key} value={key}>
+                    {EXPORT_FORMATS[key].label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Tracks</Label>
+            <Select value={scope} onValueChange={setScope} disabled={isLoading}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_MEMBERS}>All members (one file)</SelectItem>
+                {tracks.map((track) => (
+                  <SelectItem key={track.userId} value={track.userId}>
+                    {track.user.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {error && <div className="p-3 text-sm text-red-600 bg-red-50 border border-red-200 rounded-md">{error}</div>}
+          {!isLoading && !error && !hasData && (
+            <p className="text-sm text-muted-foreground">No location history or route to export yet</p>
+          )}
+          <Button onClick={handleDownload} disabled={isLoading || !!error || !hasData} className="w-full">
+            {isLoading ? "Loading tracks..." : "Download"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
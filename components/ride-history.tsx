@@ -0,0 +1,202 @@
+"use client"
+
+import { useState, useEffect, useMemo } from "react"
+import { useRouter } from "next/navigation"
+import type { DateRange } from "react-day-picker"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Calendar } from "@/components/ui/calendar"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { ArrowLeft, CalendarIcon, History, X } from "lucide-react"
+import { apiClient, getErrorMessage, type Group, type Ride } from "@/lib/api"
+import { DEFAULT_RIDE_HISTORY_FILTERS, filterRides, type RideHistoryFilters } from "@/lib/ride-history"
+import { isFinalStatus, RIDE_STATUS_LABELS, type RideStatus } from "@/lib/ride-lifecycle"
+import { describeRoute } from "@/lib/route"
+
+const formatDate = (date: Date) => date.toLocaleDateString([], { day: "numeric", month: "short", year: "numeric" })
+
+/**
+ * List of the current user's rides across all their groups, filterable by group, status and date
+ * range. Selecting a ride opens its detail page.
+ */
+export function RideHistory() {
+  const router = useRouter()
+  const [rides, setRides] = useState<Ride[]>([])
+  const [groups, setGroups] = useState<Group[]>([])
+  const [filters, setFilters] = useState<RideHistoryFilters>(DEFAULT_RIDE_HISTORY_FILTERS)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState("")
+
+  useEffect(() => {
+    loadHistory()
+  }, [])
+
+  /**
+   * Fetch the user's rides, and their groups for names and the group filter.
+   */
+  const loadHistory = async () => {
+    try {
+      setLoading(true)
+      const [ridesResponse, groupsResponse] = await Promise.all([apiClient.getUserRides(), apiClient.getUserGroups()])
+      if (ridesResponse.success) {
+        setRides(ridesResponse.data)
+      } else {
+        setError("Failed to load rides")
+      }
+      if (groupsResponse.success) {
+        setGroups(groupsResponse.data)
+      }
+    } catch (err) {
+      setError(getErrorMessage(err, "Failed to load rides"))
+      console.error("Error loading ride history:", err)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const filteredRides = useMemo(() => filterRides(rides, filters), [rides, filters])
+  const groupNames = useMemo(() => new Map(groups.map((group) => [group.id, group.name])), [groups])
+
+  const dateRange: DateRange | undefined = filters.from ? { from: filters.from, to: filters.to } : undefined
+  const dateLabel = filters.from
+    ? filters.to && filters.to.getTime() !== filters.from.getTime()
+      ? `${formatDate(filters.from)} – ${formatDate(filters.to)}`
+      : formatDate(filters.from)
+    : "Any date"
+  const hasFilters =
+    filters.groupId !== DEFAULT_RIDE_HISTORY_FILTERS.groupId ||
+    filters.status !== DEFAULT_RIDE_HISTORY_FILTERS.status ||
+    !!filters.from
+
+  if (loading) {
+    return (
+      <div className="h-screen bg-background flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
+          <p className="text-muted-foreground">Loading rides...</p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-background p-6">
+      <div className="max-w-6xl mx-auto space-y-6">
+        <div>
+          <Button variant="outline" onClick={() => router.push("/")} className="mb-4">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Groups
+          </Button>
+          <h1 className="text-3xl font-bold text-primary">Ride History</h1>
+          <p className="text-muted-foreground">Past and current rides across your groups</p>
+        </div>
+
+        {error && <div className="p-3 text-sm text-red-600 bg-red-50 border border-red-200 rounded-md">{error}</div>}
+
+        {/* Filters */}
+        <div className="flex flex-wrap items-center gap-2">
+          <Select value={filters.groupId} onValueChange={(groupId) => setFilters({ ...filters, groupId })}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All groups</SelectItem>
+              {groups.map((group) => (
+                <SelectItem key={group.id} value={group.id}>
+                  {group.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={filters.status}
+            onValueChange={(status) => setFilters({ ...filters, status: status as RideHistoryFilters["status"] })}
+          >
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Any status</SelectItem>
+              {(Object.keys(RIDE_STATUS_LABELS) as RideStatus[]).map((status) => (
+                <SelectItem key={status} value={status}>
+                  {RIDE_STATUS_LABELS[status]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button variant="outline" className="font-normal">
+                <CalendarIcon className="h-4 w-4 mr-2" />
+                {dateLabel}
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-auto p-0" align="start">
+              <Calendar
+                mode="range"
+                selected={dateRange}
+                onSelect={(range) => setFilters({ ...filters, from: range?.from, to: range?.to })}
+                disabled={{ after: new Date() }}
+              />
+            </PopoverContent>
+          </Popover>
+          {hasFilters && (
+            <Button variant="ghost" size="sm" onClick={() => setFilters(DEFAULT_RIDE_HISTORY_FILTERS)}>
+              <X className="h-4 w-4 mr-2" />
+              Clear
+            </Button>
+          )}
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <History className="h-5 w-5" />
+              Rides ({filteredRides.length})
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {filteredRides.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                {rides.length === 0 ? "You haven't been on any rides yet" : "No rides match these filters"}
+              </p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Ride</TableHead>
+                    <TableHead>Group</TableHead>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filteredRides.map((ride) => (
+                    <TableRow key={ride.id} onClick={() => router.push(`/rides/${ride.id}`)} className="cursor-pointer">
+                      <TableCell>
+                        <div className="font-medium">{ride.name}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {describeRoute(ride.route) ?? ride.description}
+                        </div>
+                      </TableCell>
+                      <TableCell>{groupNames.get(ride.groupId) ?? "—"}</TableCell>
+                      <TableCell>{formatDate(new Date(ride.createdAt))}</TableCell>
+                      <TableCell>
+                        <Badge variant={isFinalStatus(ride.status) ? "secondary" : "default"}>
+                          {RIDE_STATUS_LABELS[ride.status]}
+                        </Badge>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
@@ -2,23 +2,59 @@
  * RideManagement Component
  * 
  * This component provides the UI and logic for managing ride groups.
- * Users can create groups, invite members, view group details, and start rides.
+ * Users can create groups, invite members, view group details, start rides or join one in progress,
+ * and schedule rides ahead of time for members to RSVP, either once or as a recurring series.
+ * Members can subscribe to a group's scheduled rides from their own calendar app.
  * Handles group CRUD operations, member invitations, and conditional rendering for group management.
  */
 
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useMemo } from "react"
+import { useRouter } from "next/navigation"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Badge } from "@/components/ui/badge"
-import { Plus, Users, Settings, Trash2, LogOut } from "lucide-react"
+import { Plus, Users, Settings, Trash2, LogOut, Radio, History, CalendarPlus, Repeat, Pencil } from "lucide-react"
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
 import { Textarea } from "@/components/ui/textarea"
-import { apiClient, type Group, type GroupMember, type User } from "@/lib/api"
+import { StartRideDialog, type RidePlan } from "@/components/start-ride-dialog"
+import { RideCalendar } from "@/components/ride-calendar"
+import { CalendarFeedDialog } from "@/components/calendar-feed-dialog"
+import { AlertCenter } from "@/components/alert-center"
+import {
+  apiClient,
+  getErrorMessage,
+  type Group,
+  type GroupMember,
+  type RecurrenceFrequency,
+  type Ride,
+  type RideTemplate,
+  type RideTemplateRequest,
+  type RsvpResponse,
+  type User,
+} from "@/lib/api"
+import { describeReminder } from "@/lib/ride-schedule"
+import { describeRecurrence, getNextOccurrence } from "@/lib/ride-recurrence"
+import { isUnderwayStatus } from "@/lib/ride-lifecycle"
 import { useAuth } from "@/hooks/use-auth"
+import { useActiveGroupRides } from "@/hooks/use-active-group-rides"
+import { useScheduledRides } from "@/hooks/use-scheduled-rides"
+import { useRideReminders } from "@/hooks/use-ride-reminders"
+import { useRideTemplates } from "@/hooks/use-ride-templates"
+import { useAlertSystem } from "@/hooks/use-alert-system"
 
 /**
  * Props for RideManagement
@@ -30,7 +66,50 @@ interface RideManagementProps {
   currentUser: User
 }
 
+/**
+ * The editable plan of an existing ride.
+ */
+const planFromRide = (ride: Ride): RidePlan => ({
+  name: ride.name,
+  description: ride.description,
+  startLocation: ride.startLocation,
+  endLocation: ride.endLocation,
+  route: ride.route,
+  geofences: ride.geofences,
+  offRouteToleranceMeters: ride.offRouteToleranceMeters,
+  scheduledFor: ride.scheduledFor,
+})
+
+/**
+ * The editable plan of a series, departing at its next occurrence.
+ */
+const planFromTemplate = (template: RideTemplate): RidePlan => ({
+  name: template.name,
+  description: template.description,
+  startLocation: template.startLocation,
+  endLocation: template.endLocation,
+  route: template.route,
+  geofences: template.geofences,
+  offRouteToleranceMeters: template.offRouteToleranceMeters,
+  scheduledFor: (getNextOccurrence(template.recurrence) ?? new Date(template.recurrence.firstDeparture)).toISOString(),
+})
+
+/**
+ * A series repeating the planned ride from its departure onwards.
+ */
+const templateFromPlan = (plan: RidePlan, frequency: RecurrenceFrequency): RideTemplateRequest => ({
+  name: plan.name,
+  description: plan.description,
+  startLocation: plan.startLocation,
+  endLocation: plan.endLocation,
+  route: plan.route,
+  geofences: plan.geofences,
+  offRouteToleranceMeters: plan.offRouteToleranceMeters,
+  recurrence: { frequency, firstDeparture: plan.scheduledFor ?? new Date().toISOString() },
+})
+
 export function RideManagement({ onSelectRide, currentUser }: RideManagementProps) {
+  const router = useRouter()
   // State for all groups the user is part of
   const [groups, setGroups] = useState<Group[]>([])
   // Currently selected group for management/details
@@ -41,12 +120,65 @@ export function RideManagement({ onSelectRide, currentUser }: RideManagementProp
   const [showCreateGroup, setShowCreateGroup] = useState(false)
   // Dialog visibility for inviting a member
   const [showAddMember, setShowAddMember] = useState(false)
+  // Group whose start-ride dialog is open
+  const [groupToStart, setGroupToStart] = useState<Group | null>(null)
+  // Group whose schedule-ride dialog is open
+  const [groupToSchedule, setGroupToSchedule] = useState<Group | null>(null)
+  // Series ride awaiting the choice between editing it alone or the whole series
+  const [seriesRideToEdit, setSeriesRideToEdit] = useState<Ride | null>(null)
+  // Scheduled ride being edited on its own
+  const [rideToEdit, setRideToEdit] = useState<Ride | null>(null)
+  // Series being edited as a whole
+  const [seriesToEdit, setSeriesToEdit] = useState<RideTemplate | null>(null)
+  // Series awaiting delete confirmation
+  const [seriesToDelete, setSeriesToDelete] = useState<RideTemplate | null>(null)
+  // Scheduled ride awaiting cancel confirmation
+  const [rideToCancel, setRideToCancel] = useState<Ride | null>(null)
   // Loading state for async operations
   const [loading, setLoading] = useState(true)
   // Error message for UI display
   const [error, setError] = useState("")
   // Auth hook for logout functionality
   const { logout } = useAuth()
+  // Ride in progress per group id, so members join it instead of starting another
+  const { activeRides } = useActiveGroupRides(groups)
+  // Rides scheduled ahead of time, with members' RSVPs
+  const { rides: scheduledRides, rsvps, refresh: refreshScheduledRides, respond } = useScheduledRides()
+  // Departure reminders are shown through the alert system
+  const { alerts, addAlert, removeAlert } = useAlertSystem()
+
+  // Only group admins organize scheduled rides and series
+  const isGroupAdmin =
+    !!selectedGroup &&
+    groupMembers.some(
+      (member) => member.groupId === selectedGroup.id && member.userId === currentUser.id && member.role === "ADMIN",
+    )
+  // Recurring series of the selected group; admins keep their upcoming rides scheduled
+  const {
+    templates,
+    error: seriesError,
+    createSeries,
+    updateSeries,
+    deleteSeries,
+  } = useRideTemplates({
+    groupId: selectedGroup?.id,
+    canManage: isGroupAdmin,
+    onRidesChanged: refreshScheduledRides,
+  })
+  // Edit dialog values; memoized so the dialog only fills its form when opened
+  const rideEditPlan = useMemo(() => (rideToEdit ? { plan: planFromRide(rideToEdit) } : undefined), [rideToEdit])
+  const seriesEditPlan = useMemo(
+    () =>
+      seriesToEdit ? { plan: planFromTemplate(seriesToEdit), frequency: seriesToEdit.recurrence.frequency } : undefined,
+    [seriesToEdit],
+  )
+
+  useRideReminders({
+    rides: scheduledRides,
+    rsvps,
+    userId: currentUser.id,
+    onReminder: (ride, offsetMs) => addAlert(describeReminder(ride, offsetMs), "info", 0),
+  })
 
   // Form states for group creation and member invitation
   const [groupName, setGroupName] = useState("")
@@ -79,7 +211,7 @@ export function RideManagement({ onSelectRide, currentUser }: RideManagementProp
         setError("Failed to load groups")
       }
     } catch (err) {
-      setError("Failed to load groups")
+      setError(getErrorMessage(err, "Failed to load groups"))
       console.error("Error loading groups:", err)
     } finally {
       setLoading(false)
@@ -99,7 +231,7 @@ export function RideManagement({ onSelectRide, currentUser }: RideManagementProp
         setError("Failed to load group members")
       }
     } catch (err) {
-      setError("Failed to load group members")
+      setError(getErrorMessage(err, "Failed to load group members"))
       console.error("Error loading group members:", err)
     }
   }
@@ -126,7 +258,7 @@ export function RideManagement({ onSelectRide, currentUser }: RideManagementProp
         setError("Failed to create group")
       }
     } catch (err) {
-      setError("Failed to create group")
+      setError(getErrorMessage(err, "Failed to create group"))
       console.error("Error creating group:", err)
     }
   }
@@ -152,7 +284,7 @@ export function RideManagement({ onSelectRide, currentUser }: RideManagementProp
         setError("Failed to send invite")
       }
     } catch (err) {
-      setError("Failed to send invite")
+      setError(getErrorMessage(err, "Failed to send invite"))
       console.error("Error sending invite:", err)
     }
   }
@@ -171,10 +303,146 @@ export function RideManagement({ onSelectRide, currentUser }: RideManagementProp
   }
 
   /**
-   * Trigger ride start for the selected group.
+   * Open the start-ride dialog for a group.
    */
   const handleJoinGroup = (group: Group) => {
-    onSelectRide({ ...group, type: "group" })
+    setGroupToStart(group)
+  }
+
+  /**
+   * Start the ride once the organizer has named it and optionally imported a route.
+   */
+  const handleStartRide = (group: Group, plan: RidePlan) => {
+    setGroupToStart(null)
+    onSelectRide({ ...group, type: "group", plan })
+  }
+
+  /**
+   * Create a ride for a later departure, or a series of them when it repeats.
+   * The rides show up in the calendar, where members RSVP.
+   */
+  const handleScheduleRide = async (group: Group, plan: RidePlan, frequency: RecurrenceFrequency | null) => {
+    setGroupToSchedule(null)
+    try {
+      if (frequency) {
+        await createSeries(templateFromPlan(plan, frequency))
+        return
+      }
+      const response = await apiClient.createRide({ groupId: group.id, ...plan })
+      if (response.success) {
+        await refreshScheduledRides()
+      } else {
+        setError("Failed to schedule ride")
+      }
+    } catch (err) {
+      setError(getErrorMessage(err, "Failed to schedule ride"))
+      console.error("Error scheduling ride:", err)
+    }
+  }
+
+  /**
+   * Edit a scheduled ride. Rides that belong to a series ask whether the change is for that ride only.
+   */
+  const handleEditRide = (ride: Ride) => {
+    const template = templates.find((t) => t.id === ride.templateId)
+    if (template) {
+      setSeriesRideToEdit(ride)
+    } else {
+      setRideToEdit(ride)
+    }
+  }
+
+  /**
+   * Save changes to a single scheduled ride. A series ride stays part of its series on the same date.
+   */
+  const handleSaveRide = async (_group: Group, plan: RidePlan) => {
+    const ride = rideToEdit
+    setRideToEdit(null)
+    if (!ride) return
+    try {
+      const response = await apiClient.updateRide(ride.id, plan)
+      if (response.success) {
+        await refreshScheduledRides()
+      } else {
+        setError("Failed to update ride")
+      }
+    } catch (err) {
+      setError(getErrorMessage(err, "Failed to update ride"))
+      console.error("Error updating ride:", err)
+    }
+  }
+
+  /**
+   * Save changes to a whole series, rewriting its upcoming rides.
+   */
+  const handleSaveSeries = async (_group: Group, plan: RidePlan, frequency: RecurrenceFrequency | null) => {
+    const template = seriesToEdit
+    setSeriesToEdit(null)
+    if (!template) return
+    try {
+      await updateSeries(template.id, templateFromPlan(plan, frequency ?? template.recurrence.frequency))
+    } catch (err) {
+      setError(getErrorMessage(err, "Failed to update ride series"))
+      console.error("Error updating ride series:", err)
+    }
+  }
+
+  /**
+   * Delete a series and its upcoming rides once confirmed.
+   */
+  const handleDeleteSeries = async () => {
+    const template = seriesToDelete
+    setSeriesToDelete(null)
+    if (!template) return
+    try {
+      await deleteSeries(template)
+    } catch (err) {
+      setError(getErrorMessage(err, "Failed to delete ride series"))
+      console.error("Error deleting ride series:", err)
+    }
+  }
+
+  /**
+   * Cancel a scheduled ride once confirmed. It leaves the calendar here and shows as cancelled in
+   * subscribed calendars. A ride from a series is skipped in the series, so it isn't scheduled again.
+   */
+  const handleCancelRide = async () => {
+    const ride = rideToCancel
+    setRideToCancel(null)
+    if (!ride) return
+    try {
+      const response =
+        ride.templateId && ride.occurrenceDate
+          ? await apiClient.skipRideOccurrence(ride.templateId, ride.occurrenceDate)
+          : await apiClient.cancelRide(ride.id)
+      if (response.success) {
+        await refreshScheduledRides()
+      } else {
+        setError("Failed to cancel ride")
+      }
+    } catch (err) {
+      setError(getErrorMessage(err, "Failed to cancel ride"))
+      console.error("Error cancelling ride:", err)
+    }
+  }
+
+  /**
+   * Save the current user's RSVP for a scheduled ride.
+   */
+  const handleRespond = async (rideId: string, response: RsvpResponse) => {
+    try {
+      await respond(rideId, response)
+    } catch (err) {
+      setError(getErrorMessage(err, "Failed to save RSVP"))
+      console.error("Error saving RSVP:", err)
+    }
+  }
+
+  /**
+   * Join a group's ride that's already in progress.
+   */
+  const handleJoinRide = (ride: Ride) => {
+    onSelectRide(ride)
   }
 
   /**
@@ -247,14 +515,83 @@ export function RideManagement({ onSelectRide, currentUser }: RideManagementProp
                   </div>
                 </DialogContent>
               </Dialog>
-              {/* Start ride button: Initiates ride for this group */}
-              <Button onClick={() => handleJoinGroup(selectedGroup)} className="bg-primary">
-                Start Ride
-              </Button>
+              {/* Calendar subscription: the group's scheduled rides in the member's own calendar app */}
+              <CalendarFeedDialog group={selectedGroup} />
+              {/* Schedule ride button: Plans a ride for a later departure */}
+              {isGroupAdmin && (
+                <Button variant="outline" onClick={() => setGroupToSchedule(selectedGroup)}>
+                  <CalendarPlus className="h-4 w-4 mr-2" />
+                  Schedule Ride
+                </Button>
+              )}
+              {/* Join the ride in progress, or start one for this group */}
+              {activeRides[selectedGroup.id] ? (
+                <Button onClick={() => handleJoinRide(activeRides[selectedGroup.id].ride)} className="bg-primary">
+                  <Radio className="h-4 w-4 mr-2" />
+                  Join Ride ({activeRides[selectedGroup.id].memberCount} riding)
+                </Button>
+              ) : (
+                <Button onClick={() => handleJoinGroup(selectedGroup)} className="bg-primary">
+                  Start Ride
+                </Button>
+              )}
             </div>
           </div>
 
           {error && <div className="p-3 text-sm text-red-600 bg-red-50 border border-red-200 rounded-md">{error}</div>}
+          {seriesError && (
+            <div className="p-3 text-sm text-red-600 bg-red-50 border border-red-200 rounded-md">{seriesError}</div>
+          )}
+
+          {/* Scheduled rides for this group */}
+          <RideCalendar
+            rides={scheduledRides.filter((ride) => ride.groupId === selectedGroup.id)}
+            rsvps={rsvps}
+            groups={groups}
+            currentUser={currentUser}
+            onRespond={handleRespond}
+            onEdit={isGroupAdmin ? handleEditRide : undefined}
+            onCancel={isGroupAdmin ? setRideToCancel : undefined}
+          />
+
+          {/* Recurring series: templates that keep the group's upcoming rides scheduled */}
+          {templates.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Repeat className="h-5 w-5" />
+                  Ride Series ({templates.length})
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {templates.map((template) => (
+                  <div key={template.id} className="p-3 bg-secondary rounded-lg flex items-center justify-between gap-2">
+                    <div className="min-w-0">
+                      <div className="font-medium truncate">{template.name}</div>
+                      <div className="text-xs text-muted-foreground">{describeRecurrence(template.recurrence)}</div>
+                    </div>
+                    {isGroupAdmin && (
+                      <div className="flex gap-1 shrink-0">
+                        <Button variant="outline" size="sm" onClick={() => setSeriesToEdit(template)}>
+                          <Pencil className="h-4 w-4 mr-2" />
+                          Edit series
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setSeriesToDelete(template)}
+                          className="text-red-500 hover:text-red-700"
+                          aria-label="Delete series"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
 
           {/* Members List: Displays all members in the selected group */}
           <Card>
@@ -285,6 +622,92 @@ export function RideManagement({ onSelectRide, currentUser }: RideManagementProp
             </CardContent>
           </Card>
         </div>
+        <StartRideDialog group={groupToStart} onStart={handleStartRide} onClose={() => setGroupToStart(null)} />
+        <StartRideDialog
+          group={groupToSchedule}
+          schedule
+          repeat
+          onStart={handleScheduleRide}
+          onClose={() => setGroupToSchedule(null)}
+        />
+        <StartRideDialog
+          group={rideToEdit ? selectedGroup : null}
+          schedule
+          initial={rideEditPlan}
+          title="Save Ride"
+          onStart={handleSaveRide}
+          onClose={() => setRideToEdit(null)}
+        />
+        <StartRideDialog
+          group={seriesToEdit ? selectedGroup : null}
+          schedule
+          repeat
+          initial={seriesEditPlan}
+          title="Save Series"
+          onStart={handleSaveSeries}
+          onClose={() => setSeriesToEdit(null)}
+        />
+        {/* Series ride: edit just this ride or every upcoming ride of the series */}
+        <AlertDialog open={seriesRideToEdit !== null} onOpenChange={(open) => !open && setSeriesRideToEdit(null)}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Edit recurring ride</AlertDialogTitle>
+              <AlertDialogDescription>
+                Change only this ride, or every upcoming ride in the series? Editing the series overwrites changes made
+                to individual rides.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={() => {
+                  setRideToEdit(seriesRideToEdit)
+                  setSeriesRideToEdit(null)
+                }}
+              >
+                This ride
+              </AlertDialogAction>
+              <AlertDialogAction
+                onClick={() => {
+                  setSeriesToEdit(templates.find((t) => t.id === seriesRideToEdit?.templateId) ?? null)
+                  setSeriesRideToEdit(null)
+                }}
+              >
+                All rides in series
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+        <AlertDialog open={seriesToDelete !== null} onOpenChange={(open) => !open && setSeriesToDelete(null)}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Delete {seriesToDelete?.name}?</AlertDialogTitle>
+              <AlertDialogDescription>
+                The series stops repeating and its upcoming rides are cancelled. Past rides stay in the history.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction onClick={handleDeleteSeries}>Delete series</AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+        <AlertDialog open={rideToCancel !== null} onOpenChange={(open) => !open && setRideToCancel(null)}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Cancel {rideToCancel?.name}?</AlertDialogTitle>
+              <AlertDialogDescription>
+                Members who added the ride to their calendar see it as cancelled. A cancelled ride can&apos;t be
+                started.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Keep ride</AlertDialogCancel>
+              <AlertDialogAction onClick={handleCancelRide}>Cancel ride</AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+        <AlertCenter alerts={alerts} onDismiss={removeAlert} />
       </div>
     )
   }
@@ -339,6 +762,11 @@ export function RideManagement({ onSelectRide, currentUser }: RideManagementProp
                 </div>
               </DialogContent>
             </Dialog>
+            {/* Ride history: past rides across all groups */}
+            <Button variant="outline" onClick={() => router.push("/rides")}>
+              <History className="h-4 w-4 mr-2" />
+              Ride History
+            </Button>
             {/* Logout button: Ends user session */}
             <Button variant="outline" onClick={handleLogout}>
               <LogOut className="h-4 w-4 mr-2" />
@@ -349,6 +777,17 @@ export function RideManagement({ onSelectRide, currentUser }: RideManagementProp
 
         {error && <div className="p-3 text-sm text-red-600 bg-red-50 border border-red-200 rounded-md">{error}</div>}
 
+        {/* Scheduled rides across all groups */}
+        {groups.length > 0 && (
+          <RideCalendar
+            rides={scheduledRides}
+            rsvps={rsvps}
+            groups={groups}
+            currentUser={currentUser}
+            onRespond={handleRespond}
+          />
+        )}
+
         {/* Groups Grid: Show all groups or empty state */}
         {groups.length === 0 ? (
           // Empty state: No groups yet, prompt user to create one
@@ -395,6 +834,13 @@ export function RideManagement({ onSelectRide, currentUser }: RideManagementProp
                     <div className="text-xs text-muted-foreground">
                       Created {new Date(group.createdAt).toLocaleDateString()}
                     </div>
+                    {/* Live ride indicator with how many members are riding */}
+                    {activeRides[group.id] && (
+                      <Badge variant={activeRides[group.id].ride.status === "PAUSED" ? "secondary" : "default"}>
+                        <Users className="h-3 w-3 mr-1" />
+                        {activeRides[group.id].memberCount} riding
+                      </Badge>
+                    )}
                   </div>
                   <div className="flex gap-2 mt-4">
                     {/* Manage group button: Opens group details and member management */}
@@ -402,10 +848,23 @@ export function RideManagement({ onSelectRide, currentUser }: RideManagementProp
                       <Settings className="h-4 w-4 mr-2" />
                       Manage
                     </Button>
-                    {/* Start ride button: Initiates ride for this group */}
-                    <Button size="sm" onClick={() => handleJoinGroup(group)} className="flex-1 bg-primary">
-                      Start Ride
-                    </Button>
+                    {/* Join the ride in progress, or start one for this group */}
+                    {activeRides[group.id] ? (
+                      <Button
+                        size="sm"
+                        onClick={() => handleJoinRide(activeRides[group.id].ride)}
+                        className="flex-1 bg-primary"
+                      >
+                        <Radio className="h-4 w-4 mr-2" />
+                        {isUnderwayStatus(activeRides[group.id].ride.status)
+                          ? "Ride in progress — Join"
+                          : "Ride starting soon — Join"}
+                      </Button>
+                    ) : (
+                      <Button size="sm" onClick={() => handleJoinGroup(group)} className="flex-1 bg-primary">
+                        Start Ride
+                      </Button>
+                    )}
                   </div>
                 </CardContent>
               </Card>
@@ -413,6 +872,8 @@ export function RideManagement({ onSelectRide, currentUser }: RideManagementProp
           </div>
         )}
       </div>
+      <StartRideDialog group={groupToStart} onStart={handleStartRide} onClose={() => setGroupToStart(null)} />
+      <AlertCenter alerts={alerts} onDismiss={removeAlert} />
     </div>
   )
 }
@@ -0,0 +1,282 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { createMapProvider, getMapConfig, type MapProvider } from "@/lib/map-provider"
+import type { LatLng } from "@/lib/geo"
+import { getRoutePath } from "@/lib/route"
+import { GEOFENCE_KINDS, getGeofencePath } from "@/lib/geofence"
+import { getMemberStatusLabel } from "@/lib/ride-lifecycle"
+import type { Geofence, RideMemberStatus, RouteWaypoint } from "@/lib/api"
+
+export interface RideMapMember {
+  id: string
+  name: string
+  username: string
+  status: RideMemberStatus
+  location: LatLng
+  accuracy?: number
+  speed?: number
+  lastUpdate: Date
+  // Extra lines for the info window, e.g. distance and ETA to the destination
+  details?: string[]
+}
+
+// A member's path drawn as a polyline
+export interface RideMapTrail {
+  id: string
+  color: string
+  path: LatLng[]
+}
+
+interface RideMapProps {
+  members: RideMapMember[]
+  trails?: RideMapTrail[]
+  // Planned route, drawn as a dashed line through numbered waypoints
+  route?: RouteWaypoint[]
+  // Geofences, drawn as filled areas colored by kind
+  geofences?: Geofence[]
+  onMapClick?: (position: LatLng) => void
+  // Fit the view to these points instead of following the members on every update
+  bounds?: LatLng[]
+}
+
+const ROUTE_COLOR = "#2563eb" // blue
+
+// Default view until there is something to fit: San Francisco
+const DEFAULT_VIEW = { center: { lat: 37.7749, lng: -122.4194 }, zoom: 13 }
+
+/**
+ * Escape user-provided text before it goes into info window HTML.
+ */
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+}
+
+/**
+ * Live ride map. Draws member markers and trails through the configured MapProvider
+ * (Google Maps or self-hosted tiles, see lib/map-provider).
+ */
+export function RideMap({ members, trails = [], route = [], geofences = [], onMapClick, bounds }: RideMapProps) {
+  const mapRef = useRef<HTMLDivElement>(null)
+  const providerRef = useRef<MapProvider | null>(null)
+  const markerIdsRef = useRef<Set<string>>(new Set())
+  const trailIdsRef = useRef<Set<string>>(new Set())
+  const waypointCountRef = useRef(0)
+  const geofenceIdsRef = useRef<Set<string>>(new Set())
+  const [isReady, setIsReady] = useState(false)
+  const [loadError, setLoadError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!mapRef.current) return
+
+    const provider = createMapProvider()
+    let cancelled = false
+
+    provider
+      .mount(mapRef.current, DEFAULT_VIEW)
+      .then(() => {
+        if (cancelled) return
+        providerRef.current = provider
+        setIsReady(true)
+      })
+      .catch((err) => {
+        console.error("Failed to load map:", err)
+        setLoadError(getMapConfig().provider === "google" ? "Google Maps failed to load" : "Map failed to load")
+      })
+
+    return () => {
+      cancelled = true
+      provider.destroy()
+      providerRef.current = null
+      markerIdsRef.current.clear()
+      trailIdsRef.current.clear()
+      waypointCountRef.current = 0
+      geofenceIdsRef.current.clear()
+      setIsReady(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (!isReady) return
+    updateMarkers()
+  }, [members, isReady])
+
+  useEffect(() => {
+    if (!isReady) return
+    updateTrails()
+  }, [trails, isReady])
+
+  useEffect(() => {
+    if (!isReady) return
+    updateRoute()
+  }, [route, isReady])
+
+  useEffect(() => {
+    if (!isReady) return
+    updateGeofences()
+  }, [geofences, isReady])
+
+  useEffect(() => {
+    if (!isReady || !bounds || bounds.length === 0) return
+    providerRef.current?.fitBounds(bounds)
+  }, [bounds, isReady])
+
+  useEffect(() => {
+    const provider = providerRef.current
+    if (!isReady || !provider || !onMapClick) return
+    return provider.onClick(onMapClick)
+  }, [onMapClick, isReady])
+
+  const updateTrails = () => {
+    const provider = providerRef.current
+    if (!provider) return
+
+    const trailIds = trailIdsRef.current
+
+    // Remove trails that are no longer shown
+    trailIds.forEach((id) => {
+      if (!trails.find((trail) => trail.id === id)) {
+        provider.removePolyline(`trail:${id}`)
+        trailIds.delete(id)
+      }
+    })
+
+    // Add or extend trails
+    trails.forEach((trail) => {
+      provider.setPolyline(`trail:${trail.id}`, { path: trail.path, color: trail.color })
+      trailIds.add(trail.id)
+    })
+  }
+
+  const updateRoute = () => {
+    const provider = providerRef.current
+    if (!provider) return
+
+    // Drop waypoints beyond the end of the current route
+    for (let i = route.length; i < waypointCountRef.current; i++) {
+      provider.removeMarker(`waypoint:${i}`)
+    }
+    waypointCountRef.current = route.length
+
+    route.forEach((waypoint, index) => {
+      provider.setMarker(`waypoint:${index}`, {
+        position: { lat: waypoint.latitude, lng: waypoint.longitude },
+        title: `${index + 1}. ${waypoint.name}`,
+        color: ROUTE_COLOR,
+        infoHtml: `
+          <div class="p-2">
+            <h3 class="font-semibold">${index + 1}. ${escapeHtml(waypoint.name)}</h3>
+            ${waypoint.stopMinutes ? `<p class="text-sm">Stop: ${waypoint.stopMinutes} min</p>` : ""}
+          </div>
+        `,
+      })
+    })
+
+    if (route.length > 1) {
+      provider.setPolyline("route", { path: getRoutePath(route), color: ROUTE_COLOR, weight: 3, dashed: true })
+    } else {
+      provider.removePolyline("route")
+    }
+  }
+
+  const updateGeofences = () => {
+    const provider = providerRef.current
+    if (!provider) return
+
+    const geofenceIds = geofenceIdsRef.current
+
+    // Remove geofences that no longer exist
+    geofenceIds.forEach((id) => {
+      if (!geofences.find((fence) => fence.id === id)) {
+        provider.removePolygon(`geofence:${id}`)
+        geofenceIds.delete(id)
+      }
+    })
+
+    geofences.forEach((fence) => {
+      provider.setPolygon(`geofence:${fence.id}`, {
+        path: getGeofencePath(fence),
+        color: GEOFENCE_KINDS[fence.kind].color,
+      })
+      geofenceIds.add(fence.id)
+    })
+  }
+
+  const updateMarkers = () => {
+    const provider = providerRef.current
+    if (!provider) return
+
+    const markerIds = markerIdsRef.current
+
+    // Remove markers that no longer exist
+    markerIds.forEach((id) => {
+      if (!members.find((member) => member.id === id)) {
+        provider.removeMarker(id)
+        markerIds.delete(id)
+      }
+    })
+
+    // Add or update markers for current members
+    members.forEach((member) => {
+      provider.setMarker(member.id, {
+        position: member.location,
+        title: member.name,
+        color: getMarkerColor(member.status),
+        infoHtml: `
+          <div class="p-2">
+            <h3 class="font-semibold">${escapeHtml(member.name)}</h3>
+            <p class="text-sm text-gray-600">@${escapeHtml(member.username)}</p>
+            <p class="text-sm"><span class="font-medium">Status:</span> ${getMemberStatusLabel(member.status)}</p>
+            ${typeof member.speed === "number" ? `<p class="text-sm"><span class="font-medium">Speed:</span> ${Math.round(member.speed * 3.6)} km/h</p>` : ""}
+            ${(member.details ?? []).map((line) => `<p class="text-sm">${escapeHtml(line)}</p>`).join("")}
+            ${typeof member.accuracy === "number" ? `<p class="text-xs text-gray-500">Accuracy: ±${Math.round(member.accuracy)}m</p>` : ""}
+            <p class="text-xs text-gray-500">Updated: ${member.lastUpdate.toLocaleTimeString()}</p>
+          </div>
+        `,
+      })
+      markerIds.add(member.id)
+    })
+
+    // Adjust map bounds to fit all markers
+    if (!bounds && members.length > 0) {
+      provider.fitBounds(members.map((member) => member.location))
+    }
+  }
+
+  const getMarkerColor = (status: RideMemberStatus) => {
+    switch (status) {
+      case "arrived":
+        return "#22c55e" // green
+      case "on-route":
+        return "#ea580c" // orange (primary)
+      case "waiting":
+        return "#eab308" // yellow
+      case "left":
+        return "#9ca3af" // light gray
+      default:
+        return "#6b7280" // gray
+    }
+  }
+
+  return (
+    <div className="w-full h-full relative">
+      <div ref={mapRef} className="w-full h-full" />
+      {!isReady && (
+        <div className="absolute inset-0 flex items-center justify-center bg-secondary">
+          <div className="text-center">
+            <div className="text-lg font-medium mb-2">{loadError ?? "Loading Map..."}</div>
+            {loadError && (
+              <div className="text-sm text-muted-foreground">
+                Set NEXT_PUBLIC_MAP_PROVIDER=tiles to use the tile map instead
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
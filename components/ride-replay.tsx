@@ -0,0 +1,238 @@
+"use client"
+
+import { useMemo } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Slider } from "@/components/ui/slider"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Play, Pause, RotateCcw, AlertTriangle } from "lucide-react"
+import { RideMap, type RideMapMember } from "@/components/ride-map"
+import { RideSummary } from "@/components/ride-summary"
+import { useRideReplay } from "@/hooks/use-ride-replay"
+import { getMemberColor } from "@/lib/member-colors"
+import { getPathUntil, getPositionAt } from "@/lib/ride-replay"
+import { getSeverityColor } from "@/lib/ride-lifecycle"
+import type { Alert, Ride } from "@/lib/api"
+
+const SPEED_OPTIONS = [1, 5, 10, 30, 60, 120]
+// An alert stays on the map for this long (replay time) after it was raised
+const ALERT_DISPLAY_MS = 60 * 1000
+
+interface RideReplayProps {
+  ride: Ride
+}
+
+/**
+ * Format a duration in milliseconds as h:mm:ss or m:ss.
+ */
+function formatDuration(ms: number) {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000))
+  const hours = Math.floor(totalSeconds / 3600)
+  const minutes = Math.floor((totalSeconds % 3600) / 60)
+  const seconds = String(totalSeconds % 60).padStart(2, "0")
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, "0")}:${seconds}` : `${minutes}:${seconds}`
+}
+
+/**
+ * An ended ride, opening on its summary statistics. The replay tab animates members' positions along
+ * the ride timeline, with the ride's alerts shown as they were raised.
+ */
+export function RideReplay({ ride }: RideReplayProps) {
+  const {
+    tracks,
+    alerts,
+    startTime,
+    endTime,
+    currentTime,
+    isPlaying,
+    speed,
+    isLoading,
+    error,
+    play,
+    pause,
+    seek,
+    setSpeed,
+  } = useRideReplay({ groupId: ride.groupId, rideId: ride.id })
+
+  const duration = endTime - startTime
+
+  const members = useMemo(
+    () =>
+      tracks.flatMap((track): RideMapMember[] => {
+        const position = getPositionAt(track, currentTime)
+        if (!position) return []
+        const lastSample = track.samples[track.samples.length - 1]
+        return [
+          {
+            id: track.userId,
+            name: track.user.name,
+            username: track.user.username,
+            // Past their last fix a member has stopped reporting, so show them as arrived
+            status: currentTime >= lastSample.time ? "arrived" : "on-route",
+            location: { lat: position.lat, lng: position.lng },
+            accuracy: position.accuracy,
+            lastUpdate: new Date(position.time),
+          },
+        ]
+      }),
+    [tracks, currentTime],
+  )
+
+  // Frame the whole ride once rather than chasing the markers while it plays
+  const rideBounds = useMemo(
+    () => tracks.flatMap((track) => track.samples.map((sample) => ({ lat: sample.lat, lng: sample.lng }))),
+    [tracks],
+  )
+
+  const trails = useMemo(
+    () =>
+      tracks
+        .map((track) => ({ id: track.userId, color: getMemberColor(track.userId), path: getPathUntil(track, currentTime) }))
+        .filter((trail) => trail.path.length > 1),
+    [tracks, currentTime],
+  )
+
+  const activeAlerts = alerts.filter((alert) => {
+    const raisedAt = new Date(alert.createdAt).getTime()
+    return raisedAt <= currentTime && currentTime - raisedAt < ALERT_DISPLAY_MS
+  })
+
+  const getAlertOffset = (alert: Alert) => {
+    if (duration <= 0) return 0
+    const offset = (new Date(alert.createdAt).getTime() - startTime) / duration
+    return Math.min(1, Math.max(0, offset)) * 100
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex-1 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
+          <p className="text-muted-foreground">Loading ride replay...</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (error || duration <= 0) {
+    return (
+      <div className="flex-1 flex items-center justify-center">
+        <p className="text-muted-foreground">{error || "No location history was recorded for this ride"}</p>
+      </div>
+    )
+  }
+
+  return (
+    <Tabs defaultValue="summary" onValueChange={pause} className="flex-1 flex flex-col gap-0 min-h-0">
+      <div className="bg-card border-b border-border px-4 py-2">
+        <TabsList>
+          <TabsTrigger value="summary">Summary</TabsTrigger>
+          <TabsTrigger value="replay">Replay</TabsTrigger>
+        </TabsList>
+      </div>
+      <TabsContent value="summary" className="overflow-y-auto p-6">
+        <RideSummary ride={ride} tracks={tracks} />
+      </TabsContent>
+      <TabsContent value="replay" className="flex">
+        {/* Sidebar with the ride's alerts */}
+        <aside className="w-80 bg-card border-r border-border p-4 overflow-y-auto">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Ride Alerts</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {alerts.length === 0 && <p className="text-sm text-muted-foreground">No alerts during this ride</p>}
+              {alerts.map((alert) => {
+                const raisedAt = new Date(alert.createdAt).getTime()
+                return (
+                  <button
+                    key={alert.id}
+                    type="button"
+                    onClick={() => seek(raisedAt)}
+                    className={`w-full text-left p-2 rounded-lg bg-secondary text-sm ${
+                      raisedAt > currentTime ? "opacity-50" : ""
+                    }`}
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="font-medium capitalize">{alert.type.replace("_", " ")}</span>
+                      <span className="text-xs text-muted-foreground">{formatDuration(raisedAt - startTime)}</span>
+                    </div>
+                    <div className="text-xs text-muted-foreground">{alert.message}</div>
+                  </button>
+                )
+              })}
+            </CardContent>
+          </Card>
+        </aside>
+
+        <main className="flex-1 flex flex-col">
+          <div className="flex-1 relative">
+            <RideMap members={members} trails={trails} route={ride.route} geofences={ride.geofences} bounds={rideBounds} />
+            {activeAlerts.length > 0 && (
+              <div className="absolute top-4 left-4 right-4 space-y-2 pointer-events-none">
+                {activeAlerts.map((alert) => (
+                  <div key={alert.id} className="flex items-center gap-2 p-3 bg-card border border-border rounded-md shadow">
+                    <AlertTriangle className="h-4 w-4 text-red-500" />
+                    <span className="text-sm">{alert.message}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Playback controls */}
+          <div className="bg-card border-t border-border p-4 space-y-3">
+            <div className="relative">
+              <Slider
+                value={[currentTime]}
+                min={startTime}
+                max={endTime}
+                step={1000}
+                onValueChange={([value]) => seek(value)}
+              />
+              {/* Alert markers along the timeline */}
+              {alerts.map((alert) => (
+                <span
+                  key={alert.id}
+                  title={alert.message}
+                  className={`absolute -top-2 h-2 w-0.5 pointer-events-none ${getSeverityColor(alert.severity)}`}
+                  style={{ left: `${getAlertOffset(alert)}%` }}
+                />
+              ))}
+            </div>
+            <div className="flex items-center justify-between gap-4">
+              <div className="flex items-center gap-2">
+                <Button size="sm" onClick={isPlaying ? pause : play}>
+                  {isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => seek(startTime)}>
+                  <RotateCcw className="h-4 w-4" />
+                </Button>
+                <Select value={String(speed)} onValueChange={(value) => setSpeed(Number(value))}>
+                  <SelectTrigger className="w-24 h-8 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SPEED_OPTIONS.map((option) => (
+                      <SelectItem key={option} value={String(option)}>
+                        {option}×
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <span>{new Date(currentTime).toLocaleTimeString()}</span>
+                <Badge variant="secondary" className="text-xs">
+                  {formatDuration(currentTime - startTime)} / {formatDuration(duration)}
+                </Badge>
+              </div>
+            </div>
+          </div>
+        </main>
+      </TabsContent>
+    </Tabs>
+  )
+}
@@ -0,0 +1,202 @@
+"use client"
+
+import { useMemo } from "react"
+import { Area, AreaChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { BarChart3, Gauge, Timer, Route, Users } from "lucide-react"
+import { formatDistance } from "@/lib/geo"
+import { getMemberColor } from "@/lib/member-colors"
+import { formatElapsed } from "@/lib/ride-history"
+import { getRideStats, getSpeedSeries, getSpreadSeries, toKmh } from "@/lib/ride-stats"
+import type { ReplayTrack } from "@/lib/ride-replay"
+import type { Ride } from "@/lib/api"
+
+interface RideSummaryProps {
+  ride: Ride
+  tracks: ReplayTrack[]
+}
+
+const formatClockTime = (time: number) => new Date(time).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })
+
+const formatSpeed = (metersPerSecond: number) => `${toKmh(metersPerSecond).toFixed(1)} km/h`
+
+const spreadChartConfig: ChartConfig = {
+  spread: { label: "Spread (m)", color: "#2563eb" },
+}
+
+/**
+ * Post-ride statistics computed from the members' recorded tracks: totals, a per-member breakdown,
+ * and charts of speed over time and of the group's spread.
+ */
+export function RideSummary({ ride, tracks }: RideSummaryProps) {
+  const stats = useMemo(() => getRideStats(tracks), [tracks])
+  const speedSeries = useMemo(() => getSpeedSeries(tracks), [tracks])
+  const spreadSeries = useMemo(() => getSpreadSeries(tracks, ride.route), [tracks, ride.route])
+
+  const speedChartConfig = useMemo<ChartConfig>(
+    () =>
+      Object.fromEntries(
+        tracks.map((track) => [track.userId, { label: track.user.name, color: getMemberColor(track.userId) }]),
+      ),
+    [tracks],
+  )
+
+  const hasElevation = stats.members.some((member) => member.elevationGain !== null)
+  const topSpeed = Math.max(0, ...stats.members.map((member) => member.maxSpeed))
+  const movingTime = Math.max(0, ...stats.members.map((member) => member.movingTime))
+
+  if (tracks.length === 0) {
+    return <p className="text-sm text-muted-foreground">No location history was recorded for this ride</p>
+  }
+
+  const totals: Array<{ label: string; value: string; icon: typeof Timer }> = [
+    { label: "Duration", value: formatElapsed(stats.duration), icon: Timer },
+    { label: "Distance", value: formatDistance(stats.distance), icon: Route },
+    { label: "Moving time", value: formatElapsed(movingTime), icon: Timer },
+    { label: "Top speed", value: formatSpeed(topSpeed), icon: Gauge },
+    { label: "Riders", value: String(stats.members.length), icon: Users },
+  ]
+
+  return (
+    <div className="space-y-6">
+      <div className="grid gap-4 grid-cols-2 md:grid-cols-5">
+        {totals.map(({ label, value, icon: Icon }) => (
+          <Card key={label}>
+            <CardContent className="pt-6">
+              <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                <Icon className="h-4 w-4" />
+                {label}
+              </div>
+              <div className="text-xl font-bold mt-1">{value}</div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center gap-2">
+            <Users className="h-5 w-5" />
+            Riders
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Rider</TableHead>
+                <TableHead className="text-right">Distance</TableHead>
+                <TableHead className="text-right">Moving</TableHead>
+                <TableHead className="text-right">Stopped</TableHead>
+                <TableHead className="text-right">Avg speed</TableHead>
+                <TableHead className="text-right">Max speed</TableHead>
+                {hasElevation && <TableHead className="text-right">Climb / descent</TableHead>}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {stats.members.map((member) => (
+                <TableRow key={member.userId}>
+                  <TableCell>
+                    <span className="flex items-center gap-2">
+                      <span
+                        className="inline-block h-2.5 w-2.5 rounded-full shrink-0"
+                        style={{ backgroundColor: getMemberColor(member.userId) }}
+                      />
+                      {member.user.name}
+                    </span>
+                  </TableCell>
+                  <TableCell className="text-right">{formatDistance(member.distance)}</TableCell>
+                  <TableCell className="text-right">{formatElapsed(member.movingTime)}</TableCell>
+                  <TableCell className="text-right">{formatElapsed(member.stoppedTime)}</TableCell>
+                  <TableCell className="text-right">{formatSpeed(member.averageSpeed)}</TableCell>
+                  <TableCell className="text-right">{formatSpeed(member.maxSpeed)}</TableCell>
+                  {hasElevation && (
+                    <TableCell className="text-right">
+                      {member.elevationGain !== null && member.elevationLoss !== null
+                        ? `+${Math.round(member.elevationGain)}m / -${Math.round(member.elevationLoss)}m`
+                        : "—"}
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <Gauge className="h-5 w-5" />
+              Speed (km/h)
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={speedChartConfig} className="aspect-auto h-64 w-full">
+              <LineChart data={speedSeries}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="time" tickFormatter={formatClockTime} minTickGap={32} />
+                <YAxis width={32} />
+                <ChartTooltip
+                  content={<ChartTooltipContent labelFormatter={(_, payload) => formatClockTime(payload[0]?.payload.time)} />}
+                />
+                {tracks.map((track) => (
+                  <Line
+                    key={track.userId}
+                    dataKey={track.userId}
+                    stroke={getMemberColor(track.userId)}
+                    dot={false}
+                    strokeWidth={2}
+                    connectNulls={false}
+                  />
+                ))}
+              </LineChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <BarChart3 className="h-5 w-5" />
+              Group spread
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {spreadSeries.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Spread needs at least two riders recording at once</p>
+            ) : (
+              <ChartContainer config={spreadChartConfig} className="aspect-auto h-64 w-full">
+                <AreaChart data={spreadSeries}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="time" tickFormatter={formatClockTime} minTickGap={32} />
+                  <YAxis width={40} />
+                  <ChartTooltip
+                    content={
+                      <ChartTooltipContent labelFormatter={(_, payload) => formatClockTime(payload[0]?.payload.time)} />
+                    }
+                  />
+                  <Area
+                    dataKey="spread"
+                    type="monotone"
+                    stroke="var(--color-spread)"
+                    fill="var(--color-spread)"
+                    fillOpacity={0.2}
+                  />
+                </AreaChart>
+              </ChartContainer>
+            )}
+            <p className="text-xs text-muted-foreground mt-2">
+              {ride.route && ride.route.length > 1
+                ? "Distance along the route between the leader and the sweeper"
+                : "Largest distance between any two riders"}
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
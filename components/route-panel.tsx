@@ -0,0 +1,177 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { ChevronUp, ChevronDown, Trash2, Pencil, Route } from "lucide-react"
+import { getRouteLength } from "@/lib/route"
+import { formatDistance } from "@/lib/geo"
+import type { RouteWaypoint } from "@/lib/api"
+
+// Distances from the route (meters) a rider can choose as the off-route threshold
+export const OFF_ROUTE_TOLERANCES = [100, 200, 400, 800]
+export const DEFAULT_OFF_ROUTE_TOLERANCE = 200
+
+interface RoutePanelProps {
+  route: RouteWaypoint[]
+  // Waypoints being edited, or null when not editing
+  draft: RouteWaypoint[] | null
+  canEdit: boolean
+  isSaving: boolean
+  // Distance from the route (meters) beyond which a member is reported off route
+  offRouteTolerance: number
+  onOffRouteToleranceChange: (meters: number) => void
+  onEdit: () => void
+  onDraftChange: (draft: RouteWaypoint[]) => void
+  onSave: () => void
+  onCancel: () => void
+}
+
+/**
+ * Sidebar card showing a ride's planned route. While editing, waypoints are added by clicking the map
+ * (handled by the parent) and can be renamed, reordered, given a stop duration or removed here.
+ */
+export function RoutePanel({
+  route,
+  draft,
+  canEdit,
+  isSaving,
+  offRouteTolerance,
+  onOffRouteToleranceChange,
+  onEdit,
+  onDraftChange,
+  onSave,
+  onCancel,
+}: RoutePanelProps) {
+  const waypoints = draft ?? route
+  const lengthKm = getRouteLength(waypoints) / 1000
+
+  const updateWaypoint = (index: number, changes: Partial<RouteWaypoint>) => {
+    if (!draft) return
+    onDraftChange(draft.map((waypoint, i) => (i === index ? { ...waypoint, ...changes } : waypoint)))
+  }
+
+  const moveWaypoint = (index: number, offset: -1 | 1) => {
+    if (!draft) return
+    const target = index + offset
+    if (target < 0 || target >= draft.length) return
+    const next = [...draft]
+    ;[next[index], next[target]] = [next[target], next[index]]
+    onDraftChange(next)
+  }
+
+  const removeWaypoint = (index: number) => {
+    if (!draft) return
+    onDraftChange(draft.filter((_, i) => i !== index))
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center justify-between">
+          <span className="flex items-center gap-2">
+            <Route className="h-5 w-5" />
+            Planned Route
+          </span>
+          {canEdit && !draft && (
+            <Button variant="ghost" size="sm" onClick={onEdit}>
+              <Pencil className="h-4 w-4" />
+            </Button>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {draft && <p className="text-xs text-muted-foreground">Click the map to add a waypoint at the end of the route.</p>}
+
+        {waypoints.length === 0 && !draft && <p className="text-sm text-muted-foreground">No route planned</p>}
+
+        {waypoints.map((waypoint, index) =>
+          draft ? (
+            <div key={index} className="p-2 bg-secondary rounded-lg space-y-2">
+              <div className="flex items-center gap-2">
+                <span className="text-xs font-medium w-5">{index + 1}.</span>
+                <Input
+                  value={waypoint.name}
+                  onChange={(e) => updateWaypoint(index, { name: e.target.value })}
+                  className="h-8 text-sm"
+                  aria-label={`Waypoint ${index + 1} name`}
+                />
+              </div>
+              <div className="flex items-center gap-2">
+                <Input
+                  type="number"
+                  min={0}
+                  value={waypoint.stopMinutes ?? ""}
+                  onChange={(e) =>
+                    updateWaypoint(index, { stopMinutes: e.target.value ? Math.max(0, Number(e.target.value)) : undefined })
+                  }
+                  placeholder="Stop (min)"
+                  className="h-8 text-sm flex-1"
+                  aria-label={`Waypoint ${index + 1} stop duration in minutes`}
+                />
+                <Button variant="ghost" size="sm" onClick={() => moveWaypoint(index, -1)} disabled={index === 0}>
+                  <ChevronUp className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => moveWaypoint(index, 1)}
+                  disabled={index === waypoints.length - 1}
+                >
+                  <ChevronDown className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => removeWaypoint(index)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <div key={index} className="flex items-center justify-between text-sm">
+              <span>
+                {index + 1}. {waypoint.name}
+              </span>
+              {waypoint.stopMinutes ? (
+                <span className="text-xs text-muted-foreground">{waypoint.stopMinutes} min stop</span>
+              ) : null}
+            </div>
+          ),
+        )}
+
+        {waypoints.length > 1 && <p className="text-xs text-muted-foreground">{lengthKm.toFixed(1)} km between waypoints</p>}
+
+        {!draft && route.length > 1 && (
+          <div className="flex items-center justify-between gap-2">
+            <span className="text-sm">Off-route alert</span>
+            <Select
+              value={String(offRouteTolerance)}
+              onValueChange={(value) => onOffRouteToleranceChange(Number(value))}
+            >
+              <SelectTrigger className="w-28 h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {OFF_ROUTE_TOLERANCES.map((meters) => (
+                  <SelectItem key={meters} value={String(meters)}>
+                    {formatDistance(meters)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        {draft && (
+          <div className="flex gap-2">
+            <Button size="sm" onClick={onSave} disabled={isSaving} className="flex-1">
+              {isSaving ? "Saving..." : "Save Route"}
+            </Button>
+            <Button variant="outline" size="sm" onClick={onCancel} disabled={isSaving}>
+              Cancel
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,360 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Calendar } from "@/components/ui/calendar"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { CalendarIcon, X } from "lucide-react"
+import { RideMap } from "@/components/ride-map"
+import { EMPTY_GEOFENCE_DRAFT, geofenceFromDraft } from "@/components/geofence-panel"
+import { DEFAULT_OFF_ROUTE_TOLERANCE, OFF_ROUTE_TOLERANCES } from "@/components/route-panel"
+import { getRouteLength, getRoutePath } from "@/lib/route"
+import { importRouteFile, RouteImportError, ROUTE_FILE_EXTENSIONS, type ImportedRoute } from "@/lib/route-import"
+import { describeRecurrence, RECURRENCE_FREQUENCIES } from "@/lib/ride-recurrence"
+import { formatDistance, type LatLng } from "@/lib/geo"
+import type { Group, RecurrenceFrequency, RideRequest } from "@/lib/api"
+
+// Everything needed to create the ride except the group it belongs to
+export type RidePlan = Omit<RideRequest, "groupId">
+
+interface StartRideDialogProps {
+  // Group to start a ride for; the dialog is open while set
+  group: Group | null
+  // Plan the ride for a later departure instead of starting it now
+  schedule?: boolean
+  // When scheduling, offer to repeat the ride as a recurring series
+  repeat?: boolean
+  // Values to edit, for an existing ride or series
+  initial?: { plan: RidePlan; frequency?: RecurrenceFrequency }
+  // Overrides the dialog title and confirm button label
+  title?: string
+  // `frequency` is set when the organizer chose to repeat the ride
+  onStart: (group: Group, plan: RidePlan, frequency: RecurrenceFrequency | null) => void
+  onClose: () => void
+}
+
+const DEFAULT_DEPARTURE_TIME = "09:00"
+
+/**
+ * Departure time from a calendar day and an "HH:MM" time, or null if either is missing.
+ */
+function getDeparture(date: Date | undefined, time: string): Date | null {
+  const [hours, minutes] = time.split(":").map(Number)
+  if (!date || Number.isNaN(hours) || Number.isNaN(minutes)) return null
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate(), hours, minutes)
+}
+
+/**
+ * Dialog shown before a ride is created. The organizer names the ride, can upload a GPX or GeoJSON
+ * route, which is previewed on the map and becomes the ride's planned route, and can set a meeting
+ * point by clicking the map. When scheduling, they also pick the departure date and time and, if
+ * offered, how often the ride repeats.
+ */
+export function StartRideDialog({
+  group,
+  schedule = false,
+  repeat = false,
+  initial,
+  title,
+  onStart,
+  onClose,
+}: StartRideDialogProps) {
+  const [rideName, setRideName] = useState("")
+  const [imported, setImported] = useState<ImportedRoute | null>(null)
+  const [fileName, setFileName] = useState("")
+  const [isImporting, setIsImporting] = useState(false)
+  const [meetingPointName, setMeetingPointName] = useState("")
+  const [meetingPoint, setMeetingPoint] = useState<LatLng | null>(null)
+  const [departureDate, setDepartureDate] = useState<Date | undefined>(undefined)
+  const [departureTime, setDepartureTime] = useState(DEFAULT_DEPARTURE_TIME)
+  const [frequency, setFrequency] = useState<RecurrenceFrequency | "none">("none")
+  const [offRouteTolerance, setOffRouteTolerance] = useState(DEFAULT_OFF_ROUTE_TOLERANCE)
+  const [error, setError] = useState("")
+
+  const reset = () => {
+    setRideName("")
+    setImported(null)
+    setFileName("")
+    setMeetingPointName("")
+    setMeetingPoint(null)
+    setDepartureDate(undefined)
+    setDepartureTime(DEFAULT_DEPARTURE_TIME)
+    setFrequency("none")
+    setOffRouteTolerance(DEFAULT_OFF_ROUTE_TOLERANCE)
+    setError("")
+  }
+
+  // The edited ride's first meeting point is editable here; its other geofences are kept as they are
+  const initialMeetingFence = initial?.plan.geofences?.find(
+    (fence) => fence.kind === "meeting_point" && fence.shape.type === "circle",
+  )
+
+  // Fill the form from the ride or series being edited each time the dialog opens
+  useEffect(() => {
+    if (!group || !initial) return
+    const { plan } = initial
+    setRideName(plan.name)
+    setMeetingPointName(plan.startLocation ?? "")
+    setMeetingPoint(
+      initialMeetingFence?.shape.type === "circle"
+        ? { lat: initialMeetingFence.shape.center.latitude, lng: initialMeetingFence.shape.center.longitude }
+        : null,
+    )
+    setImported(plan.route && plan.route.length > 1 ? { waypoints: plan.route, track: [] } : null)
+    setFileName(plan.route && plan.route.length > 1 ? "Current route" : "")
+    if (plan.scheduledFor) {
+      const scheduled = new Date(plan.scheduledFor)
+      setDepartureDate(scheduled)
+      setDepartureTime(
+        `${String(scheduled.getHours()).padStart(2, "0")}:${String(scheduled.getMinutes()).padStart(2, "0")}`,
+      )
+    }
+    setFrequency(initial.frequency ?? "none")
+    setOffRouteTolerance(plan.offRouteToleranceMeters ?? DEFAULT_OFF_ROUTE_TOLERANCE)
+  }, [group, initial])
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) {
+      reset()
+      onClose()
+    }
+  }
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    // Allow picking the same file again after clearing it
+    event.target.value = ""
+    if (!file) return
+
+    try {
+      setIsImporting(true)
+      setError("")
+      const route = await importRouteFile(file)
+      setImported(route)
+      setFileName(file.name)
+      if (!rideName.trim() && route.name) {
+        setRideName(route.name)
+      }
+    } catch (err) {
+      setImported(null)
+      setFileName("")
+      setError(err instanceof RouteImportError ? err.message : "Failed to read the route file")
+      console.error("Error importing route:", err)
+    } finally {
+      setIsImporting(false)
+    }
+  }
+
+  const departure = getDeparture(departureDate, departureTime)
+  const canStart = !isImporting && (!schedule || (departure !== null && departure.getTime() > Date.now()))
+
+  // The meeting point becomes a meeting-point geofence, so arrivals there are detected during the ride
+  const meetingFence = useMemo(
+    () =>
+      meetingPoint
+        ? geofenceFromDraft(
+            { ...EMPTY_GEOFENCE_DRAFT, name: meetingPointName, points: [meetingPoint] },
+            `geofence-${Date.now().toString(36)}`,
+          )
+        : null,
+    [meetingPoint, meetingPointName],
+  )
+
+  const handleStart = () => {
+    if (!group || !canStart) return
+    const waypoints = imported?.waypoints
+    const otherFences = (initial?.plan.geofences ?? []).filter((fence) => fence !== initialMeetingFence)
+    const geofences = meetingFence ? [meetingFence, ...otherFences] : otherFences
+    onStart(
+      group,
+      {
+        name: rideName.trim() || group.name || "Group Ride",
+        description: initial?.plan.description ?? (group.description || ""),
+        startLocation: meetingPointName.trim() || (waypoints ? waypoints[0].name : ""),
+        endLocation: waypoints ? waypoints[waypoints.length - 1].name : "",
+        route: waypoints,
+        geofences: geofences.length > 0 ? geofences : undefined,
+        scheduledFor: schedule && departure ? departure.toISOString() : undefined,
+        offRouteToleranceMeters: offRouteTolerance,
+      },
+      schedule && repeat && frequency !== "none" ? frequency : null,
+    )
+    reset()
+  }
+
+  const previewPath = useMemo(
+    () => (imported ? (imported.track.length > 1 ? imported.track : getRoutePath(imported.waypoints)) : []),
+    [imported],
+  )
+
+  return (
+    <Dialog open={group !== null} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>
+            {title ?? (schedule ? "Schedule Ride" : "Start Ride")}
+            {group ? ` — ${group.name}` : ""}
+          </DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="ride-name">Ride Name</Label>
+            <Input
+              id="ride-name"
+              value={rideName}
+              onChange={(e) => setRideName(e.target.value)}
+              placeholder={group?.name || "Group Ride"}
+            />
+          </div>
+          {schedule && (
+            <div className="flex gap-2">
+              <div className="flex-1">
+                <Label>Date</Label>
+                <Popover>
+                  <PopoverTrigger asChild>
+                    <Button variant="outline" className="w-full justify-start font-normal">
+                      <CalendarIcon className="h-4 w-4 mr-2" />
+                      {departureDate ? departureDate.toLocaleDateString() : "Pick a date"}
+                    </Button>
+                  </PopoverTrigger>
+                  <PopoverContent className="w-auto p-0" align="start">
+                    <Calendar
+                      mode="single"
+                      selected={departureDate}
+                      onSelect={setDepartureDate}
+                      disabled={{ before: new Date() }}
+                    />
+                  </PopoverContent>
+                </Popover>
+              </div>
+              <div className="w-32">
+                <Label htmlFor="ride-departure-time">Time</Label>
+                <Input
+                  id="ride-departure-time"
+                  type="time"
+                  value={departureTime}
+                  onChange={(e) => setDepartureTime(e.target.value)}
+                />
+              </div>
+            </div>
+          )}
+          {schedule && repeat && (
+            <div>
+              <Label>Repeat</Label>
+              <Select value={frequency} onValueChange={(value) => setFrequency(value as RecurrenceFrequency | "none")}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {/* An existing series keeps repeating; it's deleted rather than turned into a single ride */}
+                  {!initial?.frequency && <SelectItem value="none">Does not repeat</SelectItem>}
+                  {(Object.keys(RECURRENCE_FREQUENCIES) as RecurrenceFrequency[]).map((option) => (
+                    <SelectItem key={option} value={option}>
+                      {RECURRENCE_FREQUENCIES[option].label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {frequency !== "none" && departure && (
+                <p className="text-xs text-muted-foreground mt-1">
+                  {describeRecurrence({ frequency, firstDeparture: departure.toISOString() })}
+                </p>
+              )}
+            </div>
+          )}
+          <div>
+            <Label htmlFor="ride-meeting-point">Meeting Point (Optional)</Label>
+            <div className="flex items-center gap-2">
+              <Input
+                id="ride-meeting-point"
+                value={meetingPointName}
+                onChange={(e) => setMeetingPointName(e.target.value)}
+                placeholder="e.g. Main square fountain"
+              />
+              {meetingPoint && (
+                <Button variant="ghost" size="sm" onClick={() => setMeetingPoint(null)}>
+                  <X className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+            <p className="text-xs text-muted-foreground mt-1">
+              {meetingPoint ? "Click the map to move the meeting point." : "Click the map to place the meeting point."}
+            </p>
+          </div>
+          <div>
+            <Label htmlFor="ride-route-file">Planned Route (Optional)</Label>
+            <div className="flex items-center gap-2">
+              <Input
+                id="ride-route-file"
+                type="file"
+                accept={ROUTE_FILE_EXTENSIONS.join(",")}
+                onChange={handleFileChange}
+                disabled={isImporting}
+              />
+              {imported && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => {
+                    setImported(null)
+                    setFileName("")
+                  }}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+            <p className="text-xs text-muted-foreground mt-1">GPX or GeoJSON, e.g. exported from another route planner</p>
+          </div>
+          <div className="flex items-center justify-between gap-2">
+            <Label>Off-route alert</Label>
+            <Select value={String(offRouteTolerance)} onValueChange={(value) => setOffRouteTolerance(Number(value))}>
+              <SelectTrigger className="w-28">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {OFF_ROUTE_TOLERANCES.map((meters) => (
+                  <SelectItem key={meters} value={String(meters)}>
+                    {formatDistance(meters)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {error && <div className="p-3 text-sm text-red-600 bg-red-50 border border-red-200 rounded-md">{error}</div>}
+
+          <div className="space-y-2">
+            {imported && (
+              <div className="text-sm text-muted-foreground">
+                {fileName}: {imported.waypoints.length} waypoints, {(getRouteLength(imported.waypoints) / 1000).toFixed(1)} km
+              </div>
+            )}
+            <div className="h-64 rounded-md overflow-hidden border border-border">
+              <RideMap
+                members={[]}
+                route={imported?.waypoints}
+                geofences={meetingFence ? [meetingFence] : undefined}
+                trails={
+                  imported && imported.track.length > 1
+                    ? [{ id: "imported-track", color: "#6b7280", path: imported.track }]
+                    : []
+                }
+                onMapClick={setMeetingPoint}
+                bounds={previewPath.length > 0 ? previewPath : undefined}
+              />
+            </div>
+          </div>
+
+          <Button onClick={handleStart} disabled={!canStart} className="w-full">
+            {isImporting ? "Reading route..." : (title ?? (schedule ? "Schedule Ride" : "Start Ride"))}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,64 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { apiClient, type Group, type Ride } from "@/lib/api"
+import { findActiveRide } from "@/lib/ride-lifecycle"
+
+/**
+ * A group's ride in progress and how many members are currently riding in it.
+ */
+export interface ActiveGroupRide {
+  ride: Ride
+  memberCount: number
+}
+
+async function loadActiveRide(groupId: string): Promise<ActiveGroupRide | null> {
+  const ridesResponse = await apiClient.getGroupRides(groupId)
+  const ride = ridesResponse.success ? findActiveRide(ridesResponse.data) : null
+  if (!ride) return null
+
+  const membersResponse = await apiClient.getRideMembers(ride.id)
+  const memberCount = membersResponse.success
+    ? membersResponse.data.filter((member) => member.status !== "left").length
+    : 0
+  return { ride, memberCount }
+}
+
+/**
+ * The ride in progress for each group, keyed by group id; groups without one have no entry.
+ * Refreshed every pollInterval so rides starting or ending elsewhere, and member counts, stay current.
+ */
+export function useActiveGroupRides(groups: Group[], pollInterval = 15000) {
+  const [activeRides, setActiveRides] = useState<Record<string, ActiveGroupRide>>({})
+
+  const refresh = useCallback(async () => {
+    const results = await Promise.all(
+      groups.map(async (group) => {
+        try {
+          return [group.id, await loadActiveRide(group.id)] as const
+        } catch (err) {
+          console.error(`Failed to load active ride for group ${group.id}:`, err)
+          return [group.id, null] as const
+        }
+      }),
+    )
+    const next: Record<string, ActiveGroupRide> = {}
+    results.forEach(([groupId, active]) => {
+      if (active) next[groupId] = active
+    })
+    setActiveRides(next)
+  }, [groups])
+
+  useEffect(() => {
+    if (groups.length === 0) {
+      setActiveRides({})
+      return
+    }
+
+    refresh()
+    const interval = setInterval(refresh, pollInterval)
+    return () => clearInterval(interval)
+  }, [groups, pollInterval, refresh])
+
+  return { activeRides, refresh }
+}
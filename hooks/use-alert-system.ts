@@ -1,7 +1,8 @@
 "use client"
 
 import { useState, useCallback, useEffect } from "react"
-import { apiClient, type Alert as ApiAlert } from "@/lib/api"
+import { apiClient, getErrorMessage, type Alert as ApiAlert } from "@/lib/api"
+import { acquireRideChannel, releaseRideChannel, type RideChannelState } from "@/lib/ride-channel"
 
 export interface Alert {
   id: string
@@ -22,6 +23,32 @@ export function useAlertSystem({ rideId, enableServerSync = false }: AlertSystem
   const [alerts, setAlerts] = useState<Alert[]>([])
   const [serverAlerts, setServerAlerts] = useState<ApiAlert[]>([])
 
+  const [channelState, setChannelState] = useState<RideChannelState>("closed")
+
+  // New server alerts stream in over the shared ride channel
+  useEffect(() => {
+    if (!enableServerSync || !rideId) return
+
+    const channel = acquireRideChannel(rideId)
+    setChannelState(channel.getState())
+    const unsubscribeState = channel.onStateChange(setChannelState)
+    const unsubscribeEvents = channel.subscribe((event) => {
+      if (event.type === "alert") {
+        setServerAlerts((prev) =>
+          prev.some((alert) => alert.id === event.data.id) ? prev : [...prev, event.data],
+        )
+      }
+    })
+
+    return () => {
+      unsubscribeEvents()
+      unsubscribeState()
+      releaseRideChannel(channel)
+    }
+  }, [rideId, enableServerSync])
+
+  // Load the full alert list on mount and after each channel state change; keep polling only
+  // while the channel is down
   useEffect(() => {
     if (enableServerSync && rideId) {
       const fetchServerAlerts = async () => {
@@ -36,11 +63,13 @@ export function useAlertSystem({ rideId, enableServerSync = false }: AlertSystem
       }
 
       fetchServerAlerts()
+      if (channelState === "open") return
+
       const interval = setInterval(fetchServerAlerts, 10000) // Poll every 10 seconds
 
       return () => clearInterval(interval)
     }
-  }, [rideId, enableServerSync])
+  }, [rideId, enableServerSync, channelState])
 
   const addAlert = useCallback(
     (message: string, type: Alert["type"] = "info", duration = 5000) => {
@@ -93,7 +122,7 @@ export function useAlertSystem({ rideId, enableServerSync = false }: AlertSystem
         }
       } catch (err) {
         console.error("Failed to send server alert:", err)
-        addAlert("Failed to send alert to server", "error")
+        addAlert(getErrorMessage(err, "Failed to send alert to server"), "error")
       }
     },
     [rideId, addAlert],
@@ -110,7 +139,7 @@ export function useAlertSystem({ rideId, enableServerSync = false }: AlertSystem
         }
       } catch (err) {
         console.error("Failed to send emergency alert:", err)
-        addAlert("Failed to send emergency alert", "error")
+        addAlert(getErrorMessage(err, "Failed to send emergency alert"), "error")
       }
     },
     [rideId, addAlert],
@@ -73,6 +73,19 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     checkAuth()
   }, [])
 
+  useEffect(() => {
+    // ApiClient refreshes expired access tokens on its own and replays the request.
+    // It only calls this handler when the refresh itself fails, at which point the
+    // session is unrecoverable and the user is signed out locally.
+    apiClient.setAuthFailureHandler(() => {
+      setUser(null)
+      apiClient.clearToken()
+      localStorage.removeItem("refresh_token")
+    })
+
+    return () => apiClient.setAuthFailureHandler(null)
+  }, [])
+
   /**
    * Log in a user with credentials.
    * On success, sets user state and stores tokens.
@@ -0,0 +1,50 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import type { BatteryState } from "@/lib/sampling-policy"
+
+// The Battery Status API isn't in the TypeScript DOM lib
+interface BatteryManager extends EventTarget {
+  level: number
+  charging: boolean
+}
+
+/**
+ * Current battery level and charging state, or null where the Battery Status API is unsupported
+ * (Safari, Firefox).
+ */
+export function useBatteryStatus() {
+  const [battery, setBattery] = useState<BatteryState | null>(null)
+
+  useEffect(() => {
+    const nav = navigator as Navigator & { getBattery?: () => Promise<BatteryManager> }
+    if (!nav.getBattery) return
+
+    let manager: BatteryManager | null = null
+    let cancelled = false
+
+    const update = () => {
+      if (manager && !cancelled) {
+        setBattery({ level: manager.level, charging: manager.charging })
+      }
+    }
+
+    nav
+      .getBattery()
+      .then((result) => {
+        manager = result
+        update()
+        manager.addEventListener("levelchange", update)
+        manager.addEventListener("chargingchange", update)
+      })
+      .catch((err) => console.error("Battery status unavailable:", err))
+
+    return () => {
+      cancelled = true
+      manager?.removeEventListener("levelchange", update)
+      manager?.removeEventListener("chargingchange", update)
+    }
+  }, [])
+
+  return battery
+}
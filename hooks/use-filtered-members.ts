@@ -0,0 +1,76 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import type { RideMember } from "@/lib/api"
+import { LocationFilter, type FilterResult } from "@/lib/location-filter"
+import { SAMPLING_PROFILES } from "@/lib/sampling-policy"
+
+interface MemberFilterState {
+  filter: LocationFilter
+  // Timestamp of the last position fed to the filter, so the same fix is never fed twice
+  lastTimestamp?: string
+  result?: FilterResult
+}
+
+// Senders already gate fixes by their own sampling mode, so accept anything up to the coarsest
+// mode's limit
+const MEMBER_MAX_ACCURACY = Math.max(...Object.values(SAMPLING_PROFILES).map((profile) => profile.maxAccuracy))
+
+/**
+ * Run each member's reported positions through a LocationFilter before they are drawn, so a bad fix
+ * from any device can't make its marker jump across the map. Members keep their last accepted
+ * position while new fixes are rejected. Positions without a timestamp aren't filtered, since they
+ * can't be told apart from a fix already seen.
+ */
+export function useFilteredMembers(members: RideMember[]): RideMember[] {
+  const filtersRef = useRef<Map<string, MemberFilterState>>(new Map())
+  const [filteredMembers, setFilteredMembers] = useState<RideMember[]>(members)
+
+  // Filters are stateful, so they're fed from an effect rather than during render
+  useEffect(() => {
+    const filters = filtersRef.current
+
+    // Drop state for members who left
+    filters.forEach((_, id) => {
+      if (!members.some((member) => member.id === id)) {
+        filters.delete(id)
+      }
+    })
+
+    setFilteredMembers(
+      members.map((member) => {
+        if (typeof member.latitude !== "number" || typeof member.longitude !== "number") {
+          return member
+        }
+
+        let state = filters.get(member.id)
+        if (!state) {
+          state = { filter: new LocationFilter({ maxAccuracy: MEMBER_MAX_ACCURACY }) }
+          filters.set(member.id, state)
+        }
+
+        const timestamp = member.lastLocationUpdate
+        if (timestamp && state.lastTimestamp !== timestamp) {
+          state.lastTimestamp = timestamp
+          const result = state.filter.process({
+            latitude: member.latitude,
+            longitude: member.longitude,
+            accuracy: member.accuracy,
+            timestamp,
+          })
+          if (result.accepted || !state.result) {
+            state.result = result
+          }
+        }
+
+        return {
+          ...member,
+          latitude: state.result?.latitude ?? member.latitude,
+          longitude: state.result?.longitude ?? member.longitude,
+        }
+      }),
+    )
+  }, [members])
+
+  return filteredMembers
+}
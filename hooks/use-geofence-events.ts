@@ -0,0 +1,75 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import type { Geofence, RideMember } from "@/lib/api"
+import { distanceOutsideGeofence, EXIT_MARGIN_M, type GeofenceEventType } from "@/lib/geofence"
+
+export interface GeofenceEvent {
+  member: RideMember
+  geofence: Geofence
+  type: GeofenceEventType
+  // True for the state found when a member is first seen, as opposed to an actual crossing
+  initial: boolean
+}
+
+interface GeofenceEventsOptions {
+  members: RideMember[]
+  geofences?: Geofence[]
+  onEvent?: (event: GeofenceEvent) => void
+}
+
+/**
+ * Detect members entering and leaving the ride's geofences.
+ * Returns the ids of the geofences each member is currently inside, keyed by user id.
+ */
+export function useGeofenceEvents({ members, geofences, onEvent }: GeofenceEventsOptions) {
+  const [insideByUser, setInsideByUser] = useState<Record<string, string[]>>({})
+  // Fences each member was inside after the previous update; members without an entry haven't been seen
+  const insideRef = useRef<Map<string, Set<string>>>(new Map())
+  // Fences checked in the previous update. A fence added since then only records which known members are
+  // already inside; being inside a fence when it's drawn isn't a crossing
+  const knownFencesRef = useRef<Set<string>>(new Set())
+  const onEventRef = useRef(onEvent)
+  onEventRef.current = onEvent
+
+  useEffect(() => {
+    const fences = geofences ?? []
+    const previous = insideRef.current
+    const knownFences = knownFencesRef.current
+    const next = new Map<string, Set<string>>()
+
+    members.forEach((member) => {
+      if (typeof member.latitude !== "number" || typeof member.longitude !== "number") return
+
+      const point = { lat: member.latitude, lng: member.longitude }
+      const wasInside = previous.get(member.userId)
+      const inside = new Set<string>()
+
+      fences.forEach((fence) => {
+        const outsideBy = distanceOutsideGeofence(point, fence)
+        const wasInFence = wasInside?.has(fence.id) ?? false
+        const isNewFence = !!wasInside && !knownFences.has(fence.id)
+        // Already inside: stay inside until clear of the exit margin
+        const isInFence = wasInFence ? outsideBy <= EXIT_MARGIN_M : outsideBy === 0
+
+        if (isInFence) inside.add(fence.id)
+        if (isInFence !== wasInFence && (isInFence || wasInside) && !isNewFence) {
+          onEventRef.current?.({
+            member,
+            geofence: fence,
+            type: isInFence ? "enter" : "exit",
+            initial: !wasInside,
+          })
+        }
+      })
+
+      next.set(member.userId, inside)
+    })
+
+    insideRef.current = next
+    knownFencesRef.current = new Set(fences.map((fence) => fence.id))
+    setInsideByUser(Object.fromEntries(Array.from(next, ([userId, ids]) => [userId, Array.from(ids)])))
+  }, [members, geofences])
+
+  return insideByUser
+}
@@ -0,0 +1,31 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { apiClient, type GroupMember } from "@/lib/api"
+
+/**
+ * The given user's role in a group, or null while loading or if they aren't a member.
+ */
+export function useGroupRole(groupId: string | undefined, userId: string) {
+  const [role, setRole] = useState<GroupMember["role"] | null>(null)
+
+  useEffect(() => {
+    setRole(null)
+    if (!groupId) return
+
+    let cancelled = false
+    apiClient
+      .getGroupMembers(groupId)
+      .then((response) => {
+        if (cancelled || !response.success) return
+        setRole(response.data.find((member) => member.userId === userId)?.role ?? null)
+      })
+      .catch((err) => console.error("Failed to load group role:", err))
+
+    return () => {
+      cancelled = true
+    }
+  }, [groupId, userId])
+
+  return role
+}
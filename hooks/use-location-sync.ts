@@ -1,74 +1,331 @@
 "use client"
 
-import { useState, useEffect, useCallback } from "react"
-import { apiClient } from "@/lib/api"
+import { useState, useEffect, useCallback, useRef } from "react"
+import { apiClient, getErrorMessage, NetworkError, ServerError, TimeoutError, type Ride } from "@/lib/api"
+import { distanceMeters } from "@/lib/geo"
+import { LocationFilter } from "@/lib/location-filter"
+import { SAMPLING_PROFILES, selectSamplingMode, type SamplingMode } from "@/lib/sampling-policy"
+import { useBatteryStatus } from "@/hooks/use-battery-status"
+import {
+  bufferLocation,
+  countBufferedLocations,
+  getBufferedLocations,
+  removeBufferedLocations,
+  type PendingLocation,
+} from "@/lib/location-buffer"
 
-interface LocationData {
+/**
+ * A position fix after noise filtering. latitude/longitude/accuracy are the filtered estimate;
+ * `raw` keeps the fix as the device reported it, for debugging.
+ */
+export interface LocationData {
   latitude: number
   longitude: number
   accuracy?: number
+  altitude?: number
+  heading?: number
+  speed?: number
   timestamp: string
+  raw?: {
+    latitude: number
+    longitude: number
+    accuracy?: number
+  }
 }
 
 interface LocationSyncOptions {
   rideId: string
-  updateInterval?: number
-  enableHighAccuracy?: boolean
+  rideStatus?: Ride["status"]
+  // Force a sampling mode; null/undefined selects one automatically
+  samplingOverride?: SamplingMode | null
 }
 
-export function useLocationSync({ rideId, updateInterval = 5000, enableHighAccuracy = true }: LocationSyncOptions) {
+// Maximum fixes per batch request
+const BATCH_SIZE = 50
+// Movement below this (or below the fix's own accuracy) counts as standing still
+const STATIONARY_DISTANCE_M = 10
+// While stationary, still upload one fix this often so the group sees the rider is alive
+const STATIONARY_KEEPALIVE_MS = 60000
+// Smoothed speed (m/s) thresholds for switching between moving and stopped; the gap avoids flapping
+const MOVING_SPEED = 1.5
+const STOPPED_SPEED = 0.5
+// Weight of the newest sample in the speed moving average
+const SPEED_SMOOTHING = 0.3
+
+/**
+ * Whether a failed upload is worth retrying later (connectivity or transient server trouble).
+ * Anything else (e.g. validation) would fail again, so the fix is dropped.
+ */
+function isRetryable(err: unknown) {
+  return err instanceof NetworkError || err instanceof TimeoutError || err instanceof ServerError
+}
+
+/**
+ * Unique id for a fix. The server dedupes on it, so a retried batch never stores a fix twice.
+ */
+function createClientId() {
+  if (typeof crypto !== "undefined" && "randomUUID" in crypto) {
+    return crypto.randomUUID()
+  }
+  return Date.now().toString(36) + Math.random().toString(36).substr(2, 9)
+}
+
+/**
+ * Whether `next` adds nothing over `previous`: the rider hasn't moved beyond GPS noise and the
+ * keep-alive interval hasn't elapsed.
+ */
+function isRedundantFix(previous: PendingLocation | null, next: PendingLocation) {
+  if (!previous) return false
+
+  const elapsed = new Date(next.timestamp).getTime() - new Date(previous.timestamp).getTime()
+  if (elapsed >= STATIONARY_KEEPALIVE_MS) return false
+
+  const moved = distanceMeters(
+    { lat: previous.latitude, lng: previous.longitude },
+    { lat: next.latitude, lng: next.longitude },
+  )
+  return moved < Math.max(STATIONARY_DISTANCE_M, next.accuracy ?? 0)
+}
+
+/**
+ * Tracks the device position and syncs it to the ride.
+ *
+ * Sampling adapts to ride status, movement and battery (see lib/sampling-policy) unless overridden.
+ * Fixes are collected in an outbox and uploaded as one batch per the mode's update interval,
+ * skipping redundant fixes while the rider is stationary. Each fix carries a clientId and is removed
+ * from the outbox/buffer once acknowledged, so it's delivered at most once. Batches that fail for
+ * connectivity reasons go to the offline buffer and are backfilled in order.
+ */
+export function useLocationSync({ rideId, rideStatus, samplingOverride }: LocationSyncOptions) {
   const [isTracking, setIsTracking] = useState(false)
   const [currentLocation, setCurrentLocation] = useState<LocationData | null>(null)
   const [error, setError] = useState<string | null>(null)
   const [lastSyncTime, setLastSyncTime] = useState<Date | null>(null)
+  // Fixes captured while offline and waiting to be backfilled
+  const [pendingCount, setPendingCount] = useState(0)
+  const pendingCountRef = useRef(0)
+  const isFlushingRef = useRef(false)
+  // Fixes accepted since the last upload
+  const outboxRef = useRef<PendingLocation[]>([])
+  // Last fix accepted into the outbox, used for stationary detection
+  const lastAcceptedRef = useRef<PendingLocation | null>(null)
+  // Previous raw fix and smoothed speed, used to detect movement
+  const lastFixRef = useRef<LocationData | null>(null)
+  const smoothedSpeedRef = useRef(0)
+  // Rejects implausible fixes and smooths the rest before they are shared or shown
+  const filterRef = useRef(new LocationFilter())
+  const [isMoving, setIsMoving] = useState(true)
+  const battery = useBatteryStatus()
+
+  const samplingMode = samplingOverride ?? selectSamplingMode({ rideStatus, isMoving, battery })
+  const { enableHighAccuracy, updateInterval, maximumAge, continuous, maxAccuracy } = SAMPLING_PROFILES[samplingMode]
+
+  // Coarser modes report coarser fixes; gate them by the active mode's limit so they still get through
+  useEffect(() => {
+    filterRef.current.setMaxAccuracy(maxAccuracy)
+  }, [maxAccuracy])
+
+  /**
+   * Report a failure of the offline buffer's storage (IndexedDB may be unavailable, e.g. in private
+   * browsing, or out of quota). Fixes that couldn't be buffered are lost.
+   */
+  const reportStorageError = useCallback((err: unknown) => {
+    setError("Couldn't store locations for offline sync")
+    console.error("Location buffer storage error:", err)
+  }, [])
 
-  const syncLocationToServer = useCallback(
-    async (location: LocationData) => {
+  const refreshPendingCount = useCallback(async () => {
+    try {
+      const count = await countBufferedLocations(rideId)
+      pendingCountRef.current = count
+      setPendingCount(count)
+    } catch (err) {
+      reportStorageError(err)
+    }
+  }, [rideId, reportStorageError])
+
+  /**
+   * Upload buffered fixes oldest-first in batches. Stops at the first retryable failure so order is
+   * preserved; the remaining fixes stay buffered for the next attempt.
+   */
+  const flushBuffer = useCallback(async () => {
+    if (isFlushingRef.current || !rideId) return
+    isFlushingRef.current = true
+
+    try {
+      const pending = await getBufferedLocations(rideId)
+      for (let start = 0; start < pending.length; start += BATCH_SIZE) {
+        const batch = pending.slice(start, start + BATCH_SIZE)
+
+        try {
+          await apiClient.updateRideLocations(
+            rideId,
+            batch.map(({ key, ...location }) => location),
+          )
+        } catch (err) {
+          if (isRetryable(err)) return
+          console.error("Dropping buffered locations the server rejected:", err)
+        }
+
+        await removeBufferedLocations(batch.map((entry) => entry.key))
+        await refreshPendingCount()
+      }
+
+      if (pending.length > 0) {
+        setLastSyncTime(new Date())
+        setError(null)
+      }
+    } catch (err) {
+      reportStorageError(err)
+    } finally {
+      isFlushingRef.current = false
+      await refreshPendingCount()
+    }
+  }, [rideId, refreshPendingCount, reportStorageError])
+
+  /**
+   * Move fixes to the offline buffer for later backfill.
+   */
+  const bufferFixes = useCallback(
+    async (fixes: PendingLocation[]) => {
       try {
-        const response = await apiClient.updateRideLocation(rideId, {
-          latitude: location.latitude,
-          longitude: location.longitude,
-        })
-
-        if (response.success) {
-          setLastSyncTime(new Date())
-          setError(null)
-        } else {
-          setError("Failed to sync location to server")
+        for (const fix of fixes) {
+          await bufferLocation(fix)
         }
       } catch (err) {
-        setError("Network error while syncing location")
-        console.error("Location sync error:", err)
+        reportStorageError(err)
       }
+      await refreshPendingCount()
     },
-    [rideId],
+    [refreshPendingCount, reportStorageError],
   )
 
-  const startTracking = useCallback(() => {
+  /**
+   * Upload everything in the outbox as one batch.
+   */
+  const flushOutbox = useCallback(async () => {
+    const fixes = outboxRef.current
+    if (fixes.length === 0) return
+    outboxRef.current = []
+
+    // While offline, or while older fixes are still buffered, append to the buffer so the server
+    // receives the trail in capture order
+    if ((typeof navigator !== "undefined" && !navigator.onLine) || pendingCountRef.current > 0) {
+      await bufferFixes(fixes)
+      flushBuffer()
+      return
+    }
+
+    try {
+      const response = await apiClient.updateRideLocations(rideId, fixes)
+
+      if (response.success) {
+        setLastSyncTime(new Date())
+        setError(null)
+      } else {
+        setError("Failed to sync location to server")
+      }
+    } catch (err) {
+      setError(getErrorMessage(err, "Error while syncing location"))
+      if (isRetryable(err)) {
+        await bufferFixes(fixes)
+      }
+      console.error("Location sync error:", err)
+    }
+  }, [rideId, bufferFixes, flushBuffer])
+
+  // Pick up fixes left over from a previous session and backfill whenever connectivity returns.
+  // Neither call rejects: storage failures are reported through `error`.
+  useEffect(() => {
+    if (!rideId) return
+
+    refreshPendingCount().then(flushBuffer)
+
+    window.addEventListener("online", flushBuffer)
+    return () => window.removeEventListener("online", flushBuffer)
+  }, [rideId, refreshPendingCount, flushBuffer])
+
+  /**
+   * Update the smoothed speed estimate from a new fix and flip the moving state past the thresholds.
+   */
+  const updateMovement = useCallback((location: LocationData) => {
+    const previous = lastFixRef.current
+    lastFixRef.current = location
+
+    let speed = location.speed
+    if (speed === undefined && previous) {
+      const elapsedSeconds =
+        (new Date(location.timestamp).getTime() - new Date(previous.timestamp).getTime()) / 1000
+      if (elapsedSeconds <= 0) return
+      speed =
+        distanceMeters(
+          { lat: previous.latitude, lng: previous.longitude },
+          { lat: location.latitude, lng: location.longitude },
+        ) / elapsedSeconds
+    }
+    if (speed === undefined) return
+
+    smoothedSpeedRef.current = SPEED_SMOOTHING * speed + (1 - SPEED_SMOOTHING) * smoothedSpeedRef.current
+    if (smoothedSpeedRef.current > MOVING_SPEED) {
+      setIsMoving(true)
+    } else if (smoothedSpeedRef.current < STOPPED_SPEED) {
+      setIsMoving(false)
+    }
+  }, [])
+
+  // Watch the device position while tracking
+  useEffect(() => {
+    if (!isTracking) return
+
     if (!("geolocation" in navigator)) {
       setError("Geolocation is not supported by this browser")
+      setIsTracking(false)
       return
     }
 
-    setIsTracking(true)
     setError(null)
 
     const options: PositionOptions = {
       enableHighAccuracy,
       timeout: 10000,
-      maximumAge: 1000,
+      maximumAge,
     }
 
     const handleSuccess = (position: GeolocationPosition) => {
-      const locationData: LocationData = {
+      const timestamp = new Date(position.timestamp).toISOString()
+      const filtered = filterRef.current.process({
         latitude: position.coords.latitude,
         longitude: position.coords.longitude,
         accuracy: position.coords.accuracy,
-        timestamp: new Date().toISOString(),
+        timestamp,
+      })
+      // Outliers are neither synced nor shown
+      if (!filtered.accepted) return
+
+      const locationData: LocationData = {
+        latitude: filtered.latitude,
+        longitude: filtered.longitude,
+        accuracy: filtered.accuracy,
+        // altitude/heading/speed are null when the device can't determine them (e.g. stationary)
+        altitude: position.coords.altitude ?? undefined,
+        heading: position.coords.heading ?? undefined,
+        speed: position.coords.speed ?? undefined,
+        timestamp,
+        raw: {
+          latitude: position.coords.latitude,
+          longitude: position.coords.longitude,
+          accuracy: position.coords.accuracy,
+        },
       }
 
       setCurrentLocation(locationData)
-      syncLocationToServer(locationData)
+      updateMovement(locationData)
+
+      const { raw, ...filteredLocation } = locationData
+      const fix: PendingLocation = { ...filteredLocation, rideId, clientId: createClientId() }
+      if (isRedundantFix(lastAcceptedRef.current, fix)) return
+      lastAcceptedRef.current = fix
+      outboxRef.current.push(fix)
     }
 
     const handleError = (error: GeolocationPositionError) => {
@@ -88,47 +345,53 @@ export function useLocationSync({ rideId, updateInterval = 5000, enableHighAccur
       setIsTracking(false)
     }
 
-    // Get initial position
-    navigator.geolocation.getCurrentPosition(handleSuccess, handleError, options)
-
-    // Set up continuous tracking
-    const watchId = navigator.geolocation.watchPosition(handleSuccess, handleError, options)
+    // Continuous modes watch the position (watchPosition also delivers the initial fix). Saver mode
+    // takes a one-shot fix per window instead, letting the GPS radio sleep in between.
+    let watchId: number | null = null
+    let pollInterval: ReturnType<typeof setInterval> | null = null
+    if (continuous) {
+      watchId = navigator.geolocation.watchPosition(handleSuccess, handleError, options)
+    } else {
+      navigator.geolocation.getCurrentPosition(handleSuccess, handleError, options)
+      pollInterval = setInterval(() => {
+        navigator.geolocation.getCurrentPosition(handleSuccess, handleError, options)
+      }, updateInterval)
+    }
 
-    // Set up periodic sync interval
-    const syncInterval = setInterval(() => {
-      if (currentLocation) {
-        syncLocationToServer(currentLocation)
-      }
-    }, updateInterval)
+    // Upload whatever the window collected
+    const flushInterval = setInterval(flushOutbox, updateInterval)
 
     return () => {
-      navigator.geolocation.clearWatch(watchId)
-      clearInterval(syncInterval)
+      if (watchId !== null) navigator.geolocation.clearWatch(watchId)
+      if (pollInterval) clearInterval(pollInterval)
+      clearInterval(flushInterval)
+      // Don't lose fixes captured since the last window
+      flushOutbox()
     }
-  }, [enableHighAccuracy, updateInterval, syncLocationToServer, currentLocation])
+  }, [isTracking, enableHighAccuracy, updateInterval, maximumAge, continuous, rideId, flushOutbox, updateMovement])
+
+  const startTracking = useCallback(() => {
+    setIsTracking(true)
+  }, [])
 
   const stopTracking = useCallback(() => {
     setIsTracking(false)
     setCurrentLocation(null)
     setError(null)
+    lastAcceptedRef.current = null
+    lastFixRef.current = null
+    filterRef.current.reset()
   }, [])
 
-  useEffect(() => {
-    let cleanup: (() => void) | undefined
-
-    if (isTracking) {
-      cleanup = startTracking()
-    }
-
-    return cleanup
-  }, [isTracking, startTracking])
-
   return {
     isTracking,
     currentLocation,
     error,
     lastSyncTime,
-    startTracking: () => setIsTracking(true),
+    pendingCount,
+    samplingMode,
+    isAutoSampling: !samplingOverride,
+    startTracking,
     stopTracking,
   }
 }
@@ -0,0 +1,66 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import type { RideMember, RouteWaypoint } from "@/lib/api"
+import { distanceToRouteMeters } from "@/lib/route"
+
+interface OffRouteDetectionOptions {
+  members: RideMember[]
+  route?: RouteWaypoint[]
+  // How far from the route line (meters) a member may stray before they count as off route
+  toleranceMeters: number
+  onLeaveRoute?: (member: RideMember, distanceMeters: number) => void
+  onRejoinRoute?: (member: RideMember) => void
+}
+
+// Members must come back within this fraction of the tolerance to count as on route again,
+// so GPS jitter around the threshold doesn't flap the alert
+const REJOIN_FACTOR = 0.8
+
+/**
+ * Track each member's distance from the planned route and report when they leave or rejoin it.
+ * Returns the current distance (meters) for every member who is off route, keyed by user id.
+ */
+export function useOffRouteDetection({
+  members,
+  route,
+  toleranceMeters,
+  onLeaveRoute,
+  onRejoinRoute,
+}: OffRouteDetectionOptions) {
+  const [offRoute, setOffRoute] = useState<Record<string, number>>({})
+  const offRouteRef = useRef<Record<string, number>>({})
+  // Latest callbacks, so callers don't have to memoize them
+  const onLeaveRouteRef = useRef(onLeaveRoute)
+  const onRejoinRouteRef = useRef(onRejoinRoute)
+  onLeaveRouteRef.current = onLeaveRoute
+  onRejoinRouteRef.current = onRejoinRoute
+
+  useEffect(() => {
+    const previous = offRouteRef.current
+    const next: Record<string, number> = {}
+    const hasRoute = !!route && route.length > 1
+
+    members.forEach((member) => {
+      if (!hasRoute || member.status === "left") return
+      if (typeof member.latitude !== "number" || typeof member.longitude !== "number") return
+
+      const distance = distanceToRouteMeters({ lat: member.latitude, lng: member.longitude }, route)
+      const wasOffRoute = member.userId in previous
+      const isOffRoute = wasOffRoute ? distance > toleranceMeters * REJOIN_FACTOR : distance > toleranceMeters
+
+      if (isOffRoute) {
+        next[member.userId] = distance
+        if (!wasOffRoute) onLeaveRouteRef.current?.(member, distance)
+      } else if (wasOffRoute) {
+        onRejoinRouteRef.current?.(member)
+      }
+    })
+
+    // Members who left the ride or lost their position drop out without a rejoin callback
+    offRouteRef.current = next
+    setOffRoute(next)
+  }, [members, route, toleranceMeters])
+
+  return offRoute
+}
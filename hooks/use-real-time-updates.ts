@@ -1,47 +1,109 @@
 "use client"
 
 import { useState, useEffect, useCallback } from "react"
-import { apiClient, type RideMember } from "@/lib/api"
+import { apiClient, getErrorMessage, type Ride, type RideMember } from "@/lib/api"
+import { rideMemberSchema } from "@/lib/api-schemas"
+import { acquireRideChannel, releaseRideChannel, type RideChannelState } from "@/lib/ride-channel"
 
 interface RealTimeUpdatesOptions {
   rideId: string
+  // Polling interval used only while the live channel is unavailable
   pollInterval?: number
 }
 
+/**
+ * Live ride roster and status.
+ * Streams member deltas and ride status over the shared ride channel, and falls back to polling
+ * getRideMembers and getRide while the channel can't connect, so pausing, ending or cancelling the
+ * ride still reaches clients without the channel.
+ */
 export function useRealTimeUpdates({ rideId, pollInterval = 3000 }: RealTimeUpdatesOptions) {
   const [members, setMembers] = useState<RideMember[]>([])
-  const [isConnected, setIsConnected] = useState(false)
+  const [rideStatus, setRideStatus] = useState<Ride["status"] | null>(null)
+  const [channelState, setChannelState] = useState<RideChannelState>("closed")
+  const [isPollHealthy, setIsPollHealthy] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [lastUpdate, setLastUpdate] = useState<Date | null>(null)
 
   const fetchUpdates = useCallback(async () => {
+    if (!rideId) return
+
     try {
-      const response = await apiClient.getRideMembers(rideId)
+      const [response, rideResponse] = await Promise.all([
+        apiClient.getRideMembers(rideId),
+        apiClient.getRide(rideId),
+      ])
+      if (rideResponse.success) {
+        setRideStatus(rideResponse.data.status)
+      }
       if (response.success) {
         setMembers(response.data)
         setLastUpdate(new Date())
         setError(null)
-        setIsConnected(true)
+        setIsPollHealthy(true)
       } else {
         setError("Failed to fetch ride updates")
-        setIsConnected(false)
+        setIsPollHealthy(false)
       }
     } catch (err) {
-      setError("Network error while fetching updates")
-      setIsConnected(false)
+      setError(getErrorMessage(err, "Error while fetching updates"))
+      setIsPollHealthy(false)
       console.error("Real-time update error:", err)
     }
   }, [rideId])
 
+  // Subscribe to the live channel for this ride
+  useEffect(() => {
+    if (!rideId) return
+
+    const channel = acquireRideChannel(rideId)
+    setChannelState(channel.getState())
+
+    const unsubscribeState = channel.onStateChange(setChannelState)
+
+    const unsubscribeEvents = channel.subscribe((event) => {
+      switch (event.type) {
+        case "member_update":
+          setMembers((prev) => {
+            const index = prev.findIndex((member) => member.id === event.data.id)
+            if (index === -1) {
+              // New members arrive as full records; partial deltas for unknown ids are ignored
+              const member = rideMemberSchema.safeParse(event.data)
+              return member.success ? [...prev, member.data] : prev
+            }
+            const next = [...prev]
+            next[index] = { ...next[index], ...event.data }
+            return next
+          })
+          setLastUpdate(new Date())
+          break
+        case "member_removed":
+          setMembers((prev) => prev.filter((member) => member.id !== event.data.id))
+          setLastUpdate(new Date())
+          break
+        case "ride_status":
+          setRideStatus(event.data.status)
+          break
+      }
+    })
+
+    return () => {
+      unsubscribeEvents()
+      unsubscribeState()
+      releaseRideChannel(channel)
+    }
+  }, [rideId])
+
+  // Full roster and status fetch on mount and on every channel state change (so a reconnect
+  // resyncs any missed deltas), then poll only while the live channel isn't open
   useEffect(() => {
-    // Initial fetch
     fetchUpdates()
 
-    // Set up polling interval
-    const interval = setInterval(fetchUpdates, pollInterval)
+    if (channelState === "open") return
 
+    const interval = setInterval(fetchUpdates, pollInterval)
     return () => clearInterval(interval)
-  }, [fetchUpdates, pollInterval])
+  }, [fetchUpdates, pollInterval, channelState])
 
   const refreshUpdates = useCallback(() => {
     fetchUpdates()
@@ -49,7 +111,10 @@ export function useRealTimeUpdates({ rideId, pollInterval = 3000 }: RealTimeUpda
 
   return {
     members,
-    isConnected,
+    rideStatus,
+    // Live when the channel is open (heartbeats arriving), or when fallback polling succeeds
+    isConnected: channelState === "open" || (channelState !== "closed" && isPollHealthy),
+    isStreaming: channelState === "open",
     error,
     lastUpdate,
     refreshUpdates,
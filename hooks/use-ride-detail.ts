@@ -0,0 +1,68 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { apiClient, getErrorMessage, type Alert, type Group, type Ride, type RideMember } from "@/lib/api"
+import { buildReplayTracks, type ReplayTrack } from "@/lib/ride-replay"
+
+/**
+ * Everything the ride detail page shows about a ride: the ride itself, its group, participants,
+ * alerts (oldest first) and each member's recorded track.
+ */
+export function useRideDetail(rideId: string) {
+  const [ride, setRide] = useState<Ride | null>(null)
+  const [group, setGroup] = useState<Group | null>(null)
+  const [members, setMembers] = useState<RideMember[]>([])
+  const [alerts, setAlerts] = useState<Alert[]>([])
+  const [tracks, setTracks] = useState<ReplayTrack[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+
+    const load = async () => {
+      try {
+        setIsLoading(true)
+        setError(null)
+        const rideResponse = await apiClient.getRide(rideId)
+        if (cancelled) return
+        if (!rideResponse.success) {
+          setError("Failed to load ride")
+          return
+        }
+
+        const loadedRide = rideResponse.data
+        const [groupResponse, membersResponse, alertsResponse, updatesResponse] = await Promise.all([
+          apiClient.getGroup(loadedRide.groupId),
+          apiClient.getRideMembers(rideId),
+          apiClient.getRideAlerts(rideId),
+          apiClient.getGroupLocationUpdatesForRide(loadedRide.groupId, rideId),
+        ])
+        if (cancelled) return
+
+        setRide(loadedRide)
+        setGroup(groupResponse.success ? groupResponse.data : null)
+        setMembers(membersResponse.success ? membersResponse.data : [])
+        setAlerts(
+          alertsResponse.success
+            ? [...alertsResponse.data].sort(
+                (a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime(),
+              )
+            : [],
+        )
+        setTracks(updatesResponse.success ? buildReplayTracks(updatesResponse.data) : [])
+      } catch (err) {
+        if (!cancelled) setError(getErrorMessage(err, "Failed to load ride"))
+      } finally {
+        if (!cancelled) setIsLoading(false)
+      }
+    }
+
+    load()
+    return () => {
+      cancelled = true
+    }
+  }, [rideId])
+
+  return { ride, group, members, alerts, tracks, isLoading, error }
+}
@@ -0,0 +1,75 @@
+"use client"
+
+import { useEffect, useRef } from "react"
+import type { Ride, RideRsvp } from "@/lib/api"
+import { getDepartureTime, REMINDER_OFFSETS_MS } from "@/lib/ride-schedule"
+
+interface RideRemindersOptions {
+  rides: Ride[]
+  // RSVPs keyed by ride id
+  rsvps: Record<string, RideRsvp[]>
+  userId: string
+  onReminder: (ride: Ride, offsetMs: number) => void
+}
+
+// Reminders already shown, persisted so reloading the page doesn't repeat them
+const SENT_STORAGE_KEY = "ride_reminders_sent"
+// setTimeout can't wait longer than this; later reminders are scheduled on a later visit
+const MAX_TIMEOUT_MS = 2 ** 31 - 1
+
+const reminderKey = (rideId: string, offsetMs: number) => `${rideId}:${offsetMs}`
+
+function loadSent(): Set<string> {
+  try {
+    return new Set(JSON.parse(localStorage.getItem(SENT_STORAGE_KEY) ?? "[]"))
+  } catch {
+    return new Set()
+  }
+}
+
+/**
+ * Remind the user ahead of departure for each scheduled ride they haven't declined, at each of
+ * REMINDER_OFFSETS_MS. A reminder whose time passed while the app was closed is shown on the next
+ * visit, as long as the ride hasn't departed; only the latest one due is shown.
+ */
+export function useRideReminders({ rides, rsvps, userId, onReminder }: RideRemindersOptions) {
+  const onReminderRef = useRef(onReminder)
+  onReminderRef.current = onReminder
+
+  useEffect(() => {
+    const sent = loadSent()
+    const timers: ReturnType<typeof setTimeout>[] = []
+    const now = Date.now()
+
+    const remind = (ride: Ride, offsetMs: number) => {
+      sent.add(reminderKey(ride.id, offsetMs))
+      // Only keep entries for rides still scheduled, so the list doesn't grow forever
+      const current = Array.from(sent).filter((key) => rides.some((r) => key.startsWith(`${r.id}:`)))
+      localStorage.setItem(SENT_STORAGE_KEY, JSON.stringify(current))
+      onReminderRef.current(ride, offsetMs)
+    }
+
+    rides.forEach((ride) => {
+      const departure = getDepartureTime(ride)
+      if (departure === null || departure <= now) return
+      const response = rsvps[ride.id]?.find((rsvp) => rsvp.userId === userId)?.response
+      if (response === "not_going") return
+
+      // Offsets are ordered earliest first, so the last one already due is the most recent
+      const due = REMINDER_OFFSETS_MS.filter((offset) => departure - offset <= now)
+      const latestDue = due[due.length - 1]
+      if (latestDue !== undefined && !sent.has(reminderKey(ride.id, latestDue))) {
+        remind(ride, latestDue)
+      }
+
+      REMINDER_OFFSETS_MS.forEach((offset) => {
+        const delay = departure - offset - now
+        if (delay > 0 && delay <= MAX_TIMEOUT_MS) {
+          timers.push(setTimeout(() => remind(ride, offset), delay))
+        }
+      })
+    })
+
+    return () => timers.forEach(clearTimeout)
+  }, [rides, rsvps, userId])
+}
@@ -0,0 +1,127 @@
+"use client"
+
+import { useState, useEffect, useCallback, useRef } from "react"
+import { apiClient, getErrorMessage, type Alert } from "@/lib/api"
+import { buildReplayTracks, getReplayBounds, type ReplayTrack } from "@/lib/ride-replay"
+
+interface RideReplayOptions {
+  groupId: string
+  rideId: string
+}
+
+/**
+ * Playback of an ended ride: loads its location history and alerts, and advances a replay clock
+ * at `speed` times real time while playing.
+ */
+export function useRideReplay({ groupId, rideId }: RideReplayOptions) {
+  const [tracks, setTracks] = useState<ReplayTrack[]>([])
+  const [alerts, setAlerts] = useState<Alert[]>([])
+  const [bounds, setBounds] = useState<{ start: number; end: number } | null>(null)
+  const [currentTime, setCurrentTime] = useState(0)
+  const [isPlaying, setIsPlaying] = useState(false)
+  const [speed, setSpeed] = useState(10)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const frameRef = useRef<number | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+
+    const load = async () => {
+      try {
+        setIsLoading(true)
+        setError(null)
+        const [updatesResponse, alertsResponse] = await Promise.all([
+          apiClient.getGroupLocationUpdatesForRide(groupId, rideId),
+          apiClient.getRideAlerts(rideId),
+        ])
+        if (cancelled) return
+
+        const loadedTracks = updatesResponse.success ? buildReplayTracks(updatesResponse.data) : []
+        const loadedBounds = getReplayBounds(loadedTracks)
+        setTracks(loadedTracks)
+        setBounds(loadedBounds)
+        setCurrentTime(loadedBounds?.start ?? 0)
+        setAlerts(
+          alertsResponse.success
+            ? [...alertsResponse.data].sort(
+                (a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime(),
+              )
+            : [],
+        )
+      } catch (err) {
+        if (!cancelled) setError(getErrorMessage(err, "Failed to load ride replay"))
+      } finally {
+        if (!cancelled) setIsLoading(false)
+      }
+    }
+
+    load()
+    return () => {
+      cancelled = true
+    }
+  }, [groupId, rideId])
+
+  // Advance the replay clock once per animation frame while playing
+  useEffect(() => {
+    if (!isPlaying || !bounds) return
+
+    let previousFrame = performance.now()
+    const tick = (now: number) => {
+      const elapsed = (now - previousFrame) * speed
+      previousFrame = now
+      setCurrentTime((time) => Math.min(bounds.end, time + elapsed))
+      frameRef.current = requestAnimationFrame(tick)
+    }
+    frameRef.current = requestAnimationFrame(tick)
+
+    return () => {
+      if (frameRef.current !== null) {
+        cancelAnimationFrame(frameRef.current)
+        frameRef.current = null
+      }
+    }
+  }, [isPlaying, speed, bounds])
+
+  // Stop at the end of the ride
+  useEffect(() => {
+    if (isPlaying && bounds && currentTime >= bounds.end) {
+      setIsPlaying(false)
+    }
+  }, [isPlaying, bounds, currentTime])
+
+  const play = useCallback(() => {
+    if (!bounds) return
+    // Playing from the end starts over
+    setCurrentTime((time) => (time >= bounds.end ? bounds.start : time))
+    setIsPlaying(true)
+  }, [bounds])
+
+  const pause = useCallback(() => {
+    setIsPlaying(false)
+  }, [])
+
+  const seek = useCallback(
+    (time: number) => {
+      if (!bounds) return
+      setCurrentTime(Math.min(bounds.end, Math.max(bounds.start, time)))
+    },
+    [bounds],
+  )
+
+  return {
+    tracks,
+    alerts,
+    startTime: bounds?.start ?? 0,
+    endTime: bounds?.end ?? 0,
+    currentTime,
+    isPlaying,
+    speed,
+    isLoading,
+    error,
+    play,
+    pause,
+    seek,
+    setSpeed,
+  }
+}
@@ -0,0 +1,162 @@
+"use client"
+
+import { useState, useEffect, useCallback, useRef } from "react"
+import { apiClient, getErrorMessage, type RideTemplate, type RideTemplateRequest } from "@/lib/api"
+import { planSeriesSync } from "@/lib/ride-recurrence"
+
+interface RideTemplatesOptions {
+  groupId?: string
+  // Admins keep each series' upcoming rides scheduled; other members only see the templates
+  canManage: boolean
+  // Called after rides were created, changed or cancelled for a series
+  onRidesChanged?: () => void
+}
+
+/**
+ * A group's recurring ride templates, and the operations that keep their generated rides in step.
+ * For admins, opening the group schedules any missing upcoming occurrences. Occurrences are scheduled
+ * through an idempotent endpoint, so admins syncing the same series at once don't duplicate rides.
+ * Rides that fail to sync are reported through `error` and retried on the next sync.
+ */
+export function useRideTemplates({ groupId, canManage, onRidesChanged }: RideTemplatesOptions) {
+  const [templates, setTemplates] = useState<RideTemplate[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const onRidesChangedRef = useRef(onRidesChanged)
+  onRidesChangedRef.current = onRidesChanged
+
+  /**
+   * Create, update and cancel a series' upcoming rides to match its template. Rides are cancelled
+   * rather than deleted so subscribed calendars show them as cancelled.
+   * `applyTemplate` overwrites upcoming rides with the template, after the whole series was edited.
+   * Nothing is changed once `isCancelled` reports the caller has gone away.
+   */
+  const syncSeries = useCallback(
+    async (template: RideTemplate, { applyTemplate = false, isCancelled = () => false } = {}) => {
+      const ridesResponse = await apiClient.getGroupRides(template.groupId)
+      if (isCancelled()) return
+      if (!ridesResponse.success) {
+        setError(`Failed to load the rides of ${template.name}`)
+        return
+      }
+
+      const { create, update, remove } = planSeriesSync(template, ridesResponse.data, { applyTemplate })
+      const total = create.length + update.length + remove.length
+      if (total === 0) return
+
+      const results = await Promise.allSettled([
+        ...create.map(({ occurrenceDate, request }) =>
+          apiClient.scheduleRideOccurrence(template.id, occurrenceDate, request),
+        ),
+        ...update.map(({ ride, request }) => apiClient.updateRide(ride.id, request)),
+        ...remove.map((ride) => apiClient.cancelRide(ride.id)),
+      ])
+      const failed = results.filter((result) => result.status === "rejected" || !result.value.success)
+      if (failed.length > 0) {
+        console.error(`Failed to sync ${failed.length} rides of series ${template.id}:`, failed)
+        setError(`${failed.length} of ${total} rides in ${template.name} couldn't be updated; they'll be retried`)
+      }
+      if (failed.length < total) {
+        onRidesChangedRef.current?.()
+      }
+    },
+    [],
+  )
+
+  useEffect(() => {
+    setTemplates([])
+    setError(null)
+    if (!groupId) return
+
+    let cancelled = false
+    const load = async () => {
+      try {
+        setIsLoading(true)
+        const response = await apiClient.getGroupRideTemplates(groupId)
+        if (cancelled || !response.success) return
+        setTemplates(response.data)
+        if (canManage) {
+          // One series at a time, so leaving the group stops the sync between series too
+          for (const template of response.data) {
+            if (cancelled) return
+            await syncSeries(template, { isCancelled: () => cancelled })
+          }
+        }
+      } catch (err) {
+        if (!cancelled) setError(getErrorMessage(err, "Failed to load ride series"))
+        console.error("Failed to load ride templates:", err)
+      } finally {
+        if (!cancelled) setIsLoading(false)
+      }
+    }
+
+    load()
+    return () => {
+      cancelled = true
+    }
+  }, [groupId, canManage, syncSeries])
+
+  /**
+   * Create a recurring series and schedule its first rides.
+   */
+  const createSeries = useCallback(
+    async (data: RideTemplateRequest) => {
+      if (!groupId) return
+      const response = await apiClient.createRideTemplate(groupId, data)
+      if (!response.success) {
+        throw new Error("Failed to create ride series")
+      }
+      setTemplates((prev) => [...prev, response.data])
+      await syncSeries(response.data)
+    },
+    [groupId, syncSeries],
+  )
+
+  /**
+   * Edit the whole series: update the template and rewrite its upcoming rides to match.
+   */
+  const updateSeries = useCallback(
+    async (templateId: string, data: RideTemplateRequest) => {
+      const response = await apiClient.updateRideTemplate(templateId, data)
+      if (!response.success) {
+        throw new Error("Failed to update ride series")
+      }
+      setTemplates((prev) => prev.map((template) => (template.id === templateId ? response.data : template)))
+      await syncSeries(response.data, { applyTemplate: true })
+    },
+    [syncSeries],
+  )
+
+  /**
+   * Delete a series and cancel its upcoming rides. Rides that already happened are kept.
+   */
+  const deleteSeries = useCallback(async (template: RideTemplate) => {
+    const ridesResponse = await apiClient.getGroupRides(template.groupId)
+    const now = Date.now()
+    const upcoming = ridesResponse.success
+      ? ridesResponse.data.filter(
+          (ride) =>
+            ride.templateId === template.id &&
+            ride.status === "CREATED" &&
+            !!ride.scheduledFor &&
+            new Date(ride.scheduledFor).getTime() > now,
+        )
+      : []
+
+    const response = await apiClient.deleteRideTemplate(template.id)
+    if (!response.success) {
+      throw new Error("Failed to delete ride series")
+    }
+    const results = await Promise.allSettled(upcoming.map((ride) => apiClient.cancelRide(ride.id)))
+    setTemplates((prev) => prev.filter((t) => t.id !== template.id))
+    onRidesChangedRef.current?.()
+
+    const failed = results.filter((result) => result.status === "rejected" || !result.value.success)
+    if (failed.length > 0) {
+      console.error(`Failed to cancel ${failed.length} rides of series ${template.id}:`, failed)
+      setError(`${failed.length} upcoming rides of ${template.name} couldn't be cancelled; cancel them from the calendar`)
+    }
+  }, [])
+
+  return { templates, isLoading, error, createSeries, updateSeries, deleteSeries }
+}
@@ -0,0 +1,109 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { apiClient, type RideMember } from "@/lib/api"
+import { distanceMeters, type LatLng } from "@/lib/geo"
+
+interface RideTrailsOptions {
+  groupId?: string
+  rideId?: string
+  members: RideMember[]
+  // Oldest points are dropped beyond this many per member, to keep polylines cheap to draw
+  maxPoints?: number
+}
+
+// Points closer than this to the previous one add nothing visible to a trail
+const MIN_POINT_SPACING_M = 5
+
+/**
+ * A trail point with the time (epoch ms) it was recorded, so history and live points can be merged.
+ */
+interface TrailPoint extends LatLng {
+  time: number
+}
+
+/**
+ * Append a point to a trail unless it's too close to the last one, trimming to maxPoints.
+ */
+function appendPoint(trail: TrailPoint[], point: TrailPoint, maxPoints: number): TrailPoint[] {
+  const last = trail[trail.length - 1]
+  if (last && distanceMeters(last, point) < MIN_POINT_SPACING_M) {
+    return trail
+  }
+  const next = [...trail, point]
+  return next.length > maxPoints ? next.slice(next.length - maxPoints) : next
+}
+
+/**
+ * Each member's path during a ride, keyed by user id.
+ * Seeded from the ride's location history, then extended from live member positions. Live points
+ * that arrive while the history loads are kept when they're newer than the history.
+ */
+export function useRideTrails({ groupId, rideId, members, maxPoints = 500 }: RideTrailsOptions) {
+  const [trails, setTrails] = useState<Record<string, TrailPoint[]>>({})
+  const [isLoading, setIsLoading] = useState(false)
+
+  const loadHistory = useCallback(async () => {
+    if (!groupId || !rideId) return
+
+    try {
+      setIsLoading(true)
+      const response = await apiClient.getGroupLocationUpdatesForRide(groupId, rideId)
+      if (response.success) {
+        const sorted = [...response.data].sort(
+          (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime(),
+        )
+        const history: Record<string, TrailPoint[]> = {}
+        sorted.forEach((update) => {
+          history[update.userId] = appendPoint(
+            history[update.userId] ?? [],
+            { lat: update.latitude, lng: update.longitude, time: new Date(update.timestamp).getTime() },
+            maxPoints,
+          )
+        })
+        // History first, then any live points recorded after it
+        setTrails((prev) => {
+          const merged = { ...history }
+          Object.entries(prev).forEach(([userId, livePoints]) => {
+            const historyTrail = history[userId] ?? []
+            const lastHistoryTime = historyTrail[historyTrail.length - 1]?.time ?? -Infinity
+            merged[userId] = livePoints
+              .filter((point) => point.time > lastHistoryTime)
+              .reduce((trail, point) => appendPoint(trail, point, maxPoints), historyTrail)
+          })
+          return merged
+        })
+      }
+    } catch (err) {
+      console.error("Failed to load ride trails:", err)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [groupId, rideId, maxPoints])
+
+  useEffect(() => {
+    setTrails({})
+    loadHistory()
+  }, [loadHistory])
+
+  // Extend trails as live positions arrive
+  useEffect(() => {
+    setTrails((prev) => {
+      let changed = false
+      const next = { ...prev }
+      members.forEach((member) => {
+        if (typeof member.latitude !== "number" || typeof member.longitude !== "number") return
+        const trail = next[member.userId] ?? []
+        const time = member.lastLocationUpdate ? new Date(member.lastLocationUpdate).getTime() : Date.now()
+        const extended = appendPoint(trail, { lat: member.latitude, lng: member.longitude, time }, maxPoints)
+        if (extended !== trail) {
+          next[member.userId] = extended
+          changed = true
+        }
+      })
+      return changed ? next : prev
+    })
+  }, [members, maxPoints])
+
+  return { trails, isLoading, reloadTrails: loadHistory }
+}
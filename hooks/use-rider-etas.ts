@@ -0,0 +1,134 @@
+"use client"
+
+import { useEffect, useMemo, useRef, useState } from "react"
+import type { Geofence, RideMember, RouteWaypoint } from "@/lib/api"
+import { distanceMeters, type LatLng } from "@/lib/geo"
+import { distanceOutsideGeofence } from "@/lib/geofence"
+import { getRouteProgress } from "@/lib/route"
+
+/**
+ * A rider's remaining distance and estimated arrival.
+ */
+export interface RiderEta {
+  // Meters to the destination, following the planned route when there is one
+  distanceRemaining: number
+  nextWaypoint?: { name: string; distance: number }
+  // Null while the rider isn't moving fast enough to estimate
+  arrivalTime: Date | null
+}
+
+interface RiderEtasOptions {
+  members: RideMember[]
+  route?: RouteWaypoint[]
+  geofences?: Geofence[]
+}
+
+interface SpeedState {
+  lastTimestamp: string
+  lastPoint: LatLng
+  // Smoothed speed in m/s
+  speed: number
+}
+
+// Weight of the newest sample in the speed average; lower is smoother
+const SPEED_SMOOTHING = 0.3
+// Below this average speed (m/s) a rider is stopped or crawling and an ETA would be meaningless
+const MIN_ETA_SPEED = 1
+
+/**
+ * Remaining distance and ETA to the ride's destination for each member, keyed by user id, plus when
+ * the last rider still on the way should arrive. The destination is the end of the planned route, or
+ * the destination geofence for rides without one. Speeds are averaged over recent updates so a
+ * momentary stop doesn't blow up the estimate; fixes without a timestamp don't update the average.
+ */
+export function useRiderEtas({ members, route, geofences }: RiderEtasOptions) {
+  const speedStatesRef = useRef<Map<string, SpeedState>>(new Map())
+  // Smoothed speed (m/s) per user id
+  const [speeds, setSpeeds] = useState<Record<string, number>>({})
+
+  // Update the smoothed speeds once per new fix; this is stateful, so it runs after render
+  useEffect(() => {
+    const states = speedStatesRef.current
+
+    members.forEach((member) => {
+      if (typeof member.latitude !== "number" || typeof member.longitude !== "number") return
+      const timestamp = member.lastLocationUpdate
+      if (!timestamp) return
+      const point = { lat: member.latitude, lng: member.longitude }
+
+      const previous = states.get(member.userId)
+      if (!previous) {
+        states.set(member.userId, { lastTimestamp: timestamp, lastPoint: point, speed: member.speed ?? 0 })
+      } else if (previous.lastTimestamp !== timestamp) {
+        const elapsedSeconds = (new Date(timestamp).getTime() - new Date(previous.lastTimestamp).getTime()) / 1000
+        const sample =
+          typeof member.speed === "number"
+            ? member.speed
+            : elapsedSeconds > 0
+              ? distanceMeters(previous.lastPoint, point) / elapsedSeconds
+              : previous.speed
+        states.set(member.userId, {
+          lastTimestamp: timestamp,
+          lastPoint: point,
+          speed: previous.speed + SPEED_SMOOTHING * (sample - previous.speed),
+        })
+      }
+    })
+
+    // Forget riders who are no longer in the ride
+    states.forEach((_, userId) => {
+      if (!members.some((member) => member.userId === userId)) states.delete(userId)
+    })
+
+    const next: Record<string, number> = {}
+    states.forEach((state, userId) => {
+      next[userId] = state.speed
+    })
+    setSpeeds(next)
+  }, [members])
+
+  return useMemo(() => {
+    const destinationFence = geofences?.find((fence) => fence.kind === "destination")
+    const plannedRoute = route && route.length > 1 ? route : null
+    const etas: Record<string, RiderEta> = {}
+    let lastArrival: Date | null = null
+
+    for (const member of members) {
+      if (typeof member.latitude !== "number" || typeof member.longitude !== "number") continue
+      if (member.status === "arrived" || member.status === "left") continue
+      const point = { lat: member.latitude, lng: member.longitude }
+
+      let distanceRemaining: number
+      let stopMinutes = 0
+      let nextWaypoint: RiderEta["nextWaypoint"]
+      const progress = plannedRoute ? getRouteProgress(point, plannedRoute) : null
+      if (plannedRoute && progress) {
+        distanceRemaining = progress.distanceRemaining
+        stopMinutes = progress.stopMinutesRemaining
+        if (progress.nextWaypointIndex < plannedRoute.length - 1) {
+          nextWaypoint = {
+            name: plannedRoute[progress.nextWaypointIndex].name,
+            distance: progress.distanceToNextWaypoint,
+          }
+        }
+      } else if (destinationFence) {
+        distanceRemaining = distanceOutsideGeofence(point, destinationFence)
+      } else {
+        continue
+      }
+
+      const speed = speeds[member.userId] ?? 0
+      const arrivalTime =
+        speed >= MIN_ETA_SPEED
+          ? new Date(Date.now() + (distanceRemaining / speed) * 1000 + stopMinutes * 60 * 1000)
+          : null
+
+      etas[member.userId] = { distanceRemaining, nextWaypoint, arrivalTime }
+      if (arrivalTime && (!lastArrival || arrivalTime > lastArrival)) {
+        lastArrival = arrivalTime
+      }
+    }
+
+    return { etas, lastArrival }
+  }, [members, route, geofences, speeds])
+}
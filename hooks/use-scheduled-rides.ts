@@ -0,0 +1,68 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { apiClient, getErrorMessage, type Ride, type RideRsvp, type RsvpResponse } from "@/lib/api"
+import { getScheduledRides } from "@/lib/ride-schedule"
+
+/**
+ * The current user's scheduled rides across their groups, soonest first, with each ride's RSVPs
+ * keyed by ride id.
+ */
+export function useScheduledRides() {
+  const [rides, setRides] = useState<Ride[]>([])
+  const [rsvps, setRsvps] = useState<Record<string, RideRsvp[]>>({})
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const refresh = useCallback(async () => {
+    try {
+      setIsLoading(true)
+      setError(null)
+      const response = await apiClient.getUserRides()
+      if (!response.success) {
+        setError("Failed to load scheduled rides")
+        return
+      }
+
+      const scheduled = getScheduledRides(response.data)
+      const rsvpResponses = await Promise.all(
+        scheduled.map((ride) =>
+          apiClient.getRideRsvps(ride.id).catch((err) => {
+            console.error(`Failed to load RSVPs for ride ${ride.id}:`, err)
+            return null
+          }),
+        ),
+      )
+      setRides(scheduled)
+      setRsvps(
+        Object.fromEntries(
+          scheduled.map((ride, i) => [ride.id, rsvpResponses[i]?.success ? rsvpResponses[i].data : []]),
+        ),
+      )
+    } catch (err) {
+      setError(getErrorMessage(err, "Failed to load scheduled rides"))
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  /**
+   * Record the current user's RSVP, replacing their earlier answer in the local list.
+   */
+  const respond = useCallback(async (rideId: string, response: RsvpResponse) => {
+    const result = await apiClient.rsvpRide(rideId, { response })
+    if (!result.success) {
+      throw new Error("Failed to save RSVP")
+    }
+    setRsvps((prev) => ({
+      ...prev,
+      [rideId]: [...(prev[rideId] ?? []).filter((rsvp) => rsvp.userId !== result.data.userId), result.data],
+    }))
+  }, [])
+
+  return { rides, rsvps, isLoading, error, refresh, respond }
+}
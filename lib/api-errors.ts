@@ -0,0 +1,211 @@
+/**
+ * API Error Model
+ *
+ * Typed errors thrown by ApiClient. Each HTTP failure class maps to its own subclass so callers
+ * can branch with `instanceof` (e.g. offline vs. server failure) instead of parsing message strings.
+ * The backend's `ApiResponse.message` is used as the error message when present.
+ */
+
+/**
+ * Field name -> message map for validation and conflict errors.
+ */
+export type FieldErrors = Record<string, string>;
+
+/**
+ * Base class for every error thrown by ApiClient.
+ * `status` is the HTTP status, or 0 when no response was received.
+ */
+export class ApiError extends Error {
+  status: number;
+  fieldErrors: FieldErrors;
+
+  constructor(message: string, status: number, fieldErrors: FieldErrors = {}) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+    this.fieldErrors = fieldErrors;
+  }
+}
+
+/**
+ * The request never reached the server (offline, DNS, CORS).
+ */
+export class NetworkError extends ApiError {
+  constructor(message = "Unable to reach the server. Check your connection.") {
+    super(message, 0);
+    this.name = "NetworkError";
+  }
+}
+
+/**
+ * The server did not respond within the request timeout.
+ */
+export class TimeoutError extends ApiError {
+  constructor(message = "The server took too long to respond.") {
+    super(message, 0);
+    this.name = "TimeoutError";
+  }
+}
+
+/**
+ * 401 - the session is missing or expired and could not be refreshed.
+ */
+export class UnauthorizedError extends ApiError {
+  constructor(message = "Your session has expired. Please sign in again.") {
+    super(message, 401);
+    this.name = "UnauthorizedError";
+  }
+}
+
+/**
+ * 403 - the user is signed in but not allowed to perform the action.
+ */
+export class ForbiddenError extends ApiError {
+  constructor(message = "You don't have permission to do that.") {
+    super(message, 403);
+    this.name = "ForbiddenError";
+  }
+}
+
+/**
+ * 404 - the requested resource does not exist.
+ */
+export class NotFoundError extends ApiError {
+  constructor(message = "The requested resource was not found.") {
+    super(message, 404);
+    this.name = "NotFoundError";
+  }
+}
+
+/**
+ * 400/422 - the request body was rejected. `fieldErrors` maps form fields to messages.
+ */
+export class ValidationError extends ApiError {
+  constructor(message = "Some fields are invalid.", status = 400, fieldErrors: FieldErrors = {}) {
+    super(message, status, fieldErrors);
+    this.name = "ValidationError";
+  }
+}
+
+/**
+ * 409 - the request conflicts with existing state (e.g. username already taken).
+ */
+export class ConflictError extends ApiError {
+  constructor(message = "This conflicts with existing data.", fieldErrors: FieldErrors = {}) {
+    super(message, 409, fieldErrors);
+    this.name = "ConflictError";
+  }
+}
+
+/**
+ * 5xx - the server failed while handling the request.
+ */
+export class ServerError extends ApiError {
+  constructor(message = "Something went wrong on the server.", status = 500) {
+    super(message, status);
+    this.name = "ServerError";
+  }
+}
+
+// Fields the backend reports conflicts on; used to attach a conflict message to the right form input.
+const CONFLICT_FIELDS = ["username", "email", "name"];
+
+// A 401 from the auth endpoints means the credentials were rejected, not that a session expired.
+const AUTH_ENDPOINT_PREFIX = "/api/v1/auth/";
+const INVALID_CREDENTIALS_MESSAGE = "Invalid username or password.";
+
+/**
+ * The value as a plain record, or null when it isn't an object.
+ */
+function asRecord(value: unknown): Record<string, unknown> | null {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : null;
+}
+
+/**
+ * Extract field errors from an error body.
+ * Accepts `{ errors: [{ field, message }] }`, `{ errors: { field: message } }` or the same shapes under `data`.
+ */
+function parseFieldErrors(body: unknown): FieldErrors {
+  const record = asRecord(body);
+  const data = asRecord(record?.data);
+  const source = record?.errors ?? data?.errors ?? record?.data;
+  const fieldErrors: FieldErrors = {};
+
+  if (Array.isArray(source)) {
+    source.forEach((item: unknown) => {
+      const entry = asRecord(item);
+      if (entry && typeof entry.field === "string") {
+        fieldErrors[entry.field] = String(entry.message ?? entry.defaultMessage ?? "Invalid value");
+      }
+    });
+  } else {
+    Object.entries(asRecord(source) ?? {}).forEach(([field, message]) => {
+      if (typeof message === "string") {
+        fieldErrors[field] = message;
+      }
+    });
+  }
+
+  return fieldErrors;
+}
+
+/**
+ * Build the matching ApiError subclass for a failed HTTP response.
+ * `body` is the parsed JSON body if there was one; `endpoint` is the path that was requested.
+ */
+export function createApiError(status: number, body: unknown, endpoint = ""): ApiError {
+  const bodyMessage = asRecord(body)?.message;
+  const message = typeof bodyMessage === "string" && bodyMessage.trim() ? bodyMessage : undefined;
+
+  switch (status) {
+    case 400:
+    case 422:
+      return new ValidationError(message, status, parseFieldErrors(body));
+    case 401:
+      return new UnauthorizedError(
+        message ?? (endpoint.startsWith(AUTH_ENDPOINT_PREFIX) ? INVALID_CREDENTIALS_MESSAGE : undefined)
+      );
+    case 403:
+      return new ForbiddenError(message);
+    case 404:
+      return new NotFoundError(message);
+    case 409: {
+      const fieldErrors = parseFieldErrors(body);
+      // Conflicts usually come back as a bare message like "Username already taken".
+      if (message && Object.keys(fieldErrors).length === 0) {
+        const field = CONFLICT_FIELDS.find((candidate) => message.toLowerCase().includes(candidate));
+        if (field) {
+          fieldErrors[field] = message;
+        }
+      }
+      return new ConflictError(message, fieldErrors);
+    }
+    default:
+      if (status >= 500) {
+        return new ServerError(message, status);
+      }
+      return new ApiError(message || `Request failed with status ${status}`, status);
+  }
+}
+
+/**
+ * Turn any thrown value into a message suitable for display.
+ * Offline and timeout failures get their own wording; other ApiErrors use the backend message.
+ */
+export function getErrorMessage(error: unknown, fallback: string): string {
+  if (error instanceof NetworkError) {
+    return "You're offline. Check your connection and try again.";
+  }
+  if (error instanceof TimeoutError) {
+    return "The server is taking too long to respond. Try again shortly.";
+  }
+  if (error instanceof ServerError) {
+    return `${fallback} (server error)`;
+  }
+  if (error instanceof ApiError) {
+    return error.message || fallback;
+  }
+  return fallback;
+}
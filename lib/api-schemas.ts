@@ -0,0 +1,275 @@
+/**
+ * Runtime Schemas for API Payloads
+ *
+ * zod schemas mirroring the entity types in lib/api.ts. ApiClient checks responses against these in
+ * development so backend changes show up as schema drift reports instead of undefined fields deep in the UI.
+ * Drift is reported through reportSchemaDrift only; payloads are never rejected.
+ */
+
+import { z } from "zod";
+import type {
+  Alert,
+  CalendarFeed,
+  CalendarFeedContent,
+  Geofence,
+  Group,
+  GroupMember,
+  LocationUpdate,
+  NotificationPreferences,
+  Ride,
+  RideMember,
+  RideRsvp,
+  RideTemplate,
+  RouteWaypoint,
+  User,
+} from "./api";
+
+/**
+ * User entity schema
+ */
+export const userSchema: z.ZodType<User> = z.object({
+  id: z.string(),
+  username: z.string(),
+  email: z.string(),
+  name: z.string(),
+  isActive: z.boolean(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+/**
+ * Group entity schema
+ */
+export const groupSchema: z.ZodType<Group> = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string().optional(),
+  createdBy: z.string(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+/**
+ * GroupMember entity schema
+ */
+export const groupMemberSchema: z.ZodType<GroupMember> = z.object({
+  id: z.string(),
+  userId: z.string(),
+  groupId: z.string(),
+  role: z.enum(["ADMIN", "MEMBER"]),
+  joinedAt: z.string(),
+  user: userSchema,
+});
+
+/**
+ * RouteWaypoint schema
+ */
+export const routeWaypointSchema: z.ZodType<RouteWaypoint> = z.object({
+  name: z.string(),
+  latitude: z.number(),
+  longitude: z.number(),
+  stopMinutes: z.number().optional(),
+});
+
+/**
+ * Geofence schema
+ */
+const geoPointSchema = z.object({
+  latitude: z.number(),
+  longitude: z.number(),
+});
+
+export const geofenceSchema: z.ZodType<Geofence> = z.object({
+  id: z.string(),
+  name: z.string(),
+  kind: z.enum(["meeting_point", "destination", "rest_stop"]),
+  shape: z.discriminatedUnion("type", [
+    z.object({ type: z.literal("circle"), center: geoPointSchema, radiusMeters: z.number() }),
+    z.object({ type: z.literal("polygon"), points: z.array(geoPointSchema) }),
+  ]),
+});
+
+/**
+ * Ride entity schema
+ */
+export const rideSchema: z.ZodType<Ride> = z.object({
+  id: z.string(),
+  groupId: z.string(),
+  name: z.string(),
+  description: z.string().optional(),
+  startLocation: z.string().optional(),
+  endLocation: z.string().optional(),
+  route: z.array(routeWaypointSchema).optional(),
+  geofences: z.array(geofenceSchema).optional(),
+  scheduledFor: z.string().optional(),
+  templateId: z.string().optional(),
+  occurrenceDate: z.string().optional(),
+  offRouteToleranceMeters: z.number().optional(),
+  status: z.enum(["CREATED", "STARTED", "PAUSED", "ENDED", "CANCELLED"]),
+  createdBy: z.string(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+/**
+ * RideTemplate entity schema
+ */
+export const rideTemplateSchema: z.ZodType<RideTemplate> = z.object({
+  id: z.string(),
+  groupId: z.string(),
+  name: z.string(),
+  description: z.string().optional(),
+  startLocation: z.string().optional(),
+  endLocation: z.string().optional(),
+  route: z.array(routeWaypointSchema).optional(),
+  geofences: z.array(geofenceSchema).optional(),
+  offRouteToleranceMeters: z.number().optional(),
+  recurrence: z.object({
+    frequency: z.enum(["weekly", "biweekly", "monthly"]),
+    firstDeparture: z.string(),
+  }),
+  skippedDates: z.array(z.string()).optional(),
+  createdBy: z.string(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+/**
+ * CalendarFeed entity schema
+ */
+export const calendarFeedSchema: z.ZodType<CalendarFeed> = z.object({
+  groupId: z.string(),
+  token: z.string(),
+  createdAt: z.string(),
+});
+
+/**
+ * Calendar feed content schema
+ */
+export const calendarFeedContentSchema: z.ZodType<CalendarFeedContent> = z.object({
+  group: groupSchema,
+  rides: z.array(rideSchema),
+});
+
+/**
+ * RideMember entity schema
+ */
+export const rideMemberSchema: z.ZodType<RideMember> = z.object({
+  id: z.string(),
+  rideId: z.string(),
+  userId: z.string(),
+  user: userSchema,
+  joinedAt: z.string(),
+  status: z.enum(["waiting", "on-route", "arrived", "left"]),
+  latitude: z.number().optional(),
+  longitude: z.number().optional(),
+  accuracy: z.number().optional(),
+  heading: z.number().optional(),
+  speed: z.number().optional(),
+  lastLocationUpdate: z.string().optional(),
+});
+
+/**
+ * RideRsvp entity schema
+ */
+export const rideRsvpSchema: z.ZodType<RideRsvp> = z.object({
+  id: z.string(),
+  rideId: z.string(),
+  userId: z.string(),
+  user: userSchema,
+  response: z.enum(["going", "maybe", "not_going"]),
+  updatedAt: z.string(),
+});
+
+/**
+ * LocationUpdate entity schema
+ */
+export const locationUpdateSchema: z.ZodType<LocationUpdate> = z.object({
+  id: z.string(),
+  userId: z.string(),
+  rideId: z.string().optional(),
+  latitude: z.number(),
+  longitude: z.number(),
+  accuracy: z.number().optional(),
+  altitude: z.number().optional(),
+  timestamp: z.string(),
+  user: userSchema,
+});
+
+/**
+ * Alert entity schema
+ */
+export const alertSchema: z.ZodType<Alert> = z.object({
+  id: z.string(),
+  rideId: z.string(),
+  userId: z.string(),
+  type: z.enum(["location_update", "status_change", "emergency", "traffic", "system"]),
+  message: z.string(),
+  severity: z.enum(["low", "medium", "high", "critical"]),
+  createdAt: z.string(),
+  readAt: z.string().optional(),
+});
+
+/**
+ * NotificationPreferences entity schema
+ */
+export const notificationPreferencesSchema: z.ZodType<NotificationPreferences> = z.object({
+  locationUpdates: z.boolean(),
+  statusChanges: z.boolean(),
+  emergencyAlerts: z.boolean(),
+  trafficAlerts: z.boolean(),
+  systemNotifications: z.boolean(),
+});
+
+/**
+ * Wrap a data schema in the generic ApiResponse envelope.
+ */
+export function apiResponseSchema<T extends z.ZodTypeAny>(dataSchema: T) {
+  return z.object({
+    success: z.boolean(),
+    data: dataSchema,
+    message: z.string().optional(),
+    timestamp: z.string(),
+  });
+}
+
+/**
+ * A single schema mismatch for one endpoint response.
+ */
+export interface SchemaDriftReport {
+  // Route of the endpoint, with path parameters redacted (e.g. "/api/v1/rides/:param")
+  endpoint: string;
+  issues: z.ZodIssue[];
+}
+
+type SchemaDriftListener = (report: SchemaDriftReport) => void;
+
+const driftListeners = new Set<SchemaDriftListener>();
+
+/**
+ * Subscribe to schema drift reports (e.g. to forward them to logging).
+ * Returns an unsubscribe function.
+ */
+export function onSchemaDrift(listener: SchemaDriftListener): () => void {
+  driftListeners.add(listener);
+  return () => {
+    driftListeners.delete(listener);
+  };
+}
+
+/**
+ * The single diagnostic channel for schema drift.
+ * Logs a warning and notifies all subscribers.
+ */
+export function reportSchemaDrift(report: SchemaDriftReport) {
+  console.warn(
+    `API schema drift on ${report.endpoint}:`,
+    report.issues.map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+  );
+  driftListeners.forEach((listener) => listener(report));
+}
+
+/**
+ * Whether responses should be validated. Validation is development-only to keep production fast.
+ */
+export const shouldValidateResponses = process.env.NODE_ENV !== "production";
@@ -6,8 +6,55 @@
  * ride, location, and alert management. Use apiClient for all server communication.
  */
 
+import type { z } from "zod";
+import { createApiError, NetworkError, TimeoutError, UnauthorizedError } from "./api-errors";
+import {
+  alertSchema,
+  apiResponseSchema,
+  calendarFeedContentSchema,
+  calendarFeedSchema,
+  groupMemberSchema,
+  groupSchema,
+  locationUpdateSchema,
+  notificationPreferencesSchema,
+  reportSchemaDrift,
+  rideMemberSchema,
+  rideRsvpSchema,
+  rideSchema,
+  rideTemplateSchema,
+  shouldValidateResponses,
+  userSchema,
+} from "./api-schemas";
+
+export * from "./api-errors";
+
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_BASE_URL;
 
+// Requests that take longer than this are aborted and surfaced as a TimeoutError.
+const REQUEST_TIMEOUT_MS = 15000;
+
+// Literal path segments of the endpoints below. Any other segment is a path parameter, such as an id
+// or a calendar feed's secret token, and is redacted before an endpoint is reported.
+const ENDPOINT_PATH_SEGMENTS = new Set([
+  "api", "v1", "alerts", "auth", "calendar-feed", "calendar-feeds", "cancel", "current", "emergency",
+  "end", "group", "groups", "invite", "join", "leave", "location", "locations", "login", "logout",
+  "members", "nearby", "notification-preferences", "occurrences", "pause", "profile", "read", "refresh",
+  "register", "reset", "resume", "ride", "ride-templates", "rides", "rsvp", "rsvps", "start", "status",
+  "update", "user", "users",
+]);
+
+/**
+ * An endpoint as its route, e.g. "/api/v1/rides/:param/members": path parameters and the query string
+ * (which may carry coordinates) are left out, so diagnostics never expose ids, tokens or positions.
+ */
+function toEndpointRoute(endpoint: string): string {
+  const [path] = endpoint.split("?");
+  return path
+    .split("/")
+    .map((segment) => (segment === "" || ENDPOINT_PATH_SEGMENTS.has(segment) ? segment : ":param"))
+    .join("/");
+}
+
 /**
  * User entity type
  */
@@ -46,8 +93,53 @@ export interface GroupMember {
   user: User;
 }
 
+/**
+ * A stop on a ride's planned route.
+ * - stopMinutes: planned time spent at the waypoint (e.g. a rest or fuel stop)
+ */
+export interface RouteWaypoint {
+  name: string;
+  latitude: number;
+  longitude: number;
+  stopMinutes?: number;
+}
+
+/**
+ * A point in a geofence shape.
+ */
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+/**
+ * Geofence shape: a circle around a center, or a polygon through at least three points.
+ */
+export type GeofenceShape =
+  | { type: "circle"; center: GeoPoint; radiusMeters: number }
+  | { type: "polygon"; points: GeoPoint[] };
+
+/**
+ * An area on a ride whose entry and exit drive member statuses.
+ * - meeting_point: riders gather here before the start (waiting)
+ * - destination: reaching it means the rider has arrived
+ * - rest_stop: a planned break along the way
+ */
+export interface Geofence {
+  id: string;
+  name: string;
+  kind: "meeting_point" | "destination" | "rest_stop";
+  shape: GeofenceShape;
+}
+
 /**
  * Ride entity type
+ * - route: planned waypoints in riding order, from start to destination
+ * - geofences: meeting points, destinations and rest stops defined by the organizer
+ * - scheduledFor: planned departure time (ISO 8601) for rides scheduled ahead of time
+ * - templateId/occurrenceDate: the recurring series a ride was generated from, and the series date
+ *   (YYYY-MM-DD) it fills, which stays the same if that one ride is moved
+ * - offRouteToleranceMeters: default distance from the route before a rider is reported off route
  */
 export interface Ride {
   id: string;
@@ -56,12 +148,119 @@ export interface Ride {
   description?: string;
   startLocation?: string;
   endLocation?: string;
-  status: "CREATED" | "STARTED" | "PAUSED" | "ENDED";
+  route?: RouteWaypoint[];
+  geofences?: Geofence[];
+  scheduledFor?: string;
+  templateId?: string;
+  occurrenceDate?: string;
+  offRouteToleranceMeters?: number;
+  status: "CREATED" | "STARTED" | "PAUSED" | "ENDED" | "CANCELLED";
   createdBy: string;
   createdAt: string;
   updatedAt: string;
 }
 
+/**
+ * How often a recurring ride repeats. Monthly rides fall on the same weekday of the month as the
+ * first departure, e.g. the 2nd Tuesday (or the last, if the first departure was in the month's
+ * final week).
+ */
+export type RecurrenceFrequency = "weekly" | "biweekly" | "monthly";
+
+/**
+ * Recurrence of a ride template. The first departure (ISO 8601) fixes the weekday and time.
+ */
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  firstDeparture: string;
+}
+
+/**
+ * RideTemplate entity type
+ * A group's reusable ride plan, repeated on a recurrence rule to generate scheduled rides.
+ * - skippedDates: occurrence dates (YYYY-MM-DD) an admin cancelled, which the series doesn't schedule again
+ */
+export interface RideTemplate {
+  id: string;
+  groupId: string;
+  name: string;
+  description?: string;
+  startLocation?: string;
+  endLocation?: string;
+  route?: RouteWaypoint[];
+  geofences?: Geofence[];
+  offRouteToleranceMeters?: number;
+  recurrence: RecurrenceRule;
+  skippedDates?: string[];
+  createdBy: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * CalendarFeed entity type
+ * The current user's private subscription to a group's scheduled rides. The token identifies the
+ * user in the feed URL, since calendar apps can't sign in; resetting it revokes the old URL.
+ */
+export interface CalendarFeed {
+  groupId: string;
+  token: string;
+  createdAt: string;
+}
+
+/**
+ * What a calendar feed serves: the group and its upcoming rides, including cancelled ones.
+ */
+export interface CalendarFeedContent {
+  group: Group;
+  rides: Ride[];
+}
+
+/**
+ * Status of a member within a ride.
+ * - waiting: joined but not moving yet (e.g. at the meeting point)
+ * - on-route: riding
+ * - arrived: reached the destination
+ * - left: left the ride early
+ */
+export type RideMemberStatus = "waiting" | "on-route" | "arrived" | "left";
+
+/**
+ * RideMember entity type
+ * A user's participation in a ride, including their last reported position.
+ */
+export interface RideMember {
+  id: string;
+  rideId: string;
+  userId: string;
+  user: User;
+  joinedAt: string;
+  status: RideMemberStatus;
+  latitude?: number;
+  longitude?: number;
+  accuracy?: number;
+  heading?: number;
+  speed?: number;
+  lastLocationUpdate?: string;
+}
+
+/**
+ * A member's answer to a scheduled ride invitation.
+ */
+export type RsvpResponse = "going" | "maybe" | "not_going";
+
+/**
+ * RideRsvp entity type
+ */
+export interface RideRsvp {
+  id: string;
+  rideId: string;
+  userId: string;
+  user: User;
+  response: RsvpResponse;
+  updatedAt: string;
+}
+
 /**
  * LocationUpdate entity type
  */
@@ -72,6 +271,8 @@ export interface LocationUpdate {
   latitude: number;
   longitude: number;
   accuracy?: number;
+  // Meters above sea level, when the device reports it
+  altitude?: number;
   timestamp: string;
   user: User;
 }
@@ -140,13 +341,39 @@ export interface RideRequest {
   description?: string;
   startLocation?: string;
   endLocation?: string;
+  route?: RouteWaypoint[];
+  geofences?: Geofence[];
+  scheduledFor?: string;
+  templateId?: string;
+  occurrenceDate?: string;
+  offRouteToleranceMeters?: number;
 }
 
+export type RideTemplateRequest = Omit<
+  RideTemplate,
+  "id" | "groupId" | "skippedDates" | "createdBy" | "createdAt" | "updatedAt"
+>;
+
 export interface LocationUpdateRequest {
   rideId?: string;
   latitude: number;
   longitude: number;
   accuracy?: number;
+  altitude?: number;
+  heading?: number;
+  speed?: number;
+  // Capture time of the fix; the server uses its receive time when omitted
+  timestamp?: string;
+  // Client-generated id; the server ignores a fix whose clientId it has already stored
+  clientId?: string;
+}
+
+export interface RideMemberStatusRequest {
+  status: RideMemberStatus;
+}
+
+export interface RideRsvpRequest {
+  response: RsvpResponse;
 }
 
 export interface AddMemberRequest {
@@ -157,6 +384,10 @@ export interface AddMemberRequest {
 class ApiClient {
   private baseUrl: string;
   private token: string | null = null;
+  // In-flight token refresh, shared so concurrent 401s trigger a single refresh call.
+  private refreshPromise: Promise<boolean> | null = null;
+  // Invoked when the session cannot be recovered (refresh token missing, expired or rejected).
+  private authFailureHandler: (() => void) | null = null;
 
   /**
    * Initialize ApiClient with base URL and optional token from localStorage.
@@ -190,13 +421,80 @@ class ApiClient {
     }
   }
 
+  /**
+   * Build an absolute URL for a streaming endpoint (WebSocket or SSE).
+   * Browsers can't set headers on these connections, so the access token is passed as a query parameter.
+   */
+  buildRealtimeUrl(endpoint: string, protocol: "ws" | "http"): string {
+    const origin =
+      this.baseUrl || (typeof window !== "undefined" ? window.location.origin : "");
+    const url = new URL(`${origin}${endpoint}`);
+    if (protocol === "ws") {
+      url.protocol = url.protocol === "https:" ? "wss:" : "ws:";
+    }
+    if (this.token) {
+      url.searchParams.set("access_token", this.token);
+    }
+    return url.toString();
+  }
+
+  /**
+   * Register a callback fired when the session expires and cannot be refreshed.
+   * AuthProvider uses this to sign the user out.
+   */
+  setAuthFailureHandler(handler: (() => void) | null) {
+    this.authFailureHandler = handler;
+  }
+
+  /**
+   * Exchange the stored refresh token for a new access token.
+   * Concurrent callers share the same in-flight refresh. Resolves to false when refresh is not possible.
+   */
+  private refreshAccessToken(): Promise<boolean> {
+    if (this.refreshPromise) {
+      return this.refreshPromise;
+    }
+
+    this.refreshPromise = (async () => {
+      const storedRefreshToken =
+        typeof window !== "undefined" ? localStorage.getItem("refresh_token") : null;
+      if (!storedRefreshToken) {
+        return false;
+      }
+
+      try {
+        const response = await this.refreshToken(storedRefreshToken);
+        if (!response.success || !response.data?.token) {
+          return false;
+        }
+        this.setToken(response.data.token);
+        // The backend may rotate refresh tokens; keep the newest one.
+        if (response.data.refreshToken && typeof window !== "undefined") {
+          localStorage.setItem("refresh_token", response.data.refreshToken);
+        }
+        return true;
+      } catch (error) {
+        console.error("Token refresh failed:", error);
+        return false;
+      }
+    })().finally(() => {
+      this.refreshPromise = null;
+    });
+
+    return this.refreshPromise;
+  }
+
   /**
    * Internal method to make HTTP requests to the backend.
-   * Adds auth token if available.
+   * Adds auth token if available. On a 401 the access token is refreshed once
+   * and the original request replayed; if refresh fails the auth failure handler is called.
+   * When `dataSchema` is given, the response is checked against it in development (see validateResponse).
    */
   private async request<T>(
     endpoint: string,
-    options: RequestInit = {}
+    options: RequestInit = {},
+    dataSchema?: z.ZodTypeAny,
+    retryOnUnauthorized = true
   ): Promise<ApiResponse<T>> {
     const url = `${this.baseUrl}${endpoint}`;
     // Always use a plain object for headers to allow property assignment
@@ -210,19 +508,73 @@ class ApiClient {
       headers.Authorization = `Bearer ${this.token}`;
     }
 
+    // Abort the request once the timeout elapses so a dead connection can't hang the UI.
+    // A caller's own signal aborts the same request, but only the timeout becomes a TimeoutError.
+    const controller = new AbortController();
+    let timedOut = false;
+    const timeoutId = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, REQUEST_TIMEOUT_MS);
+    const callerSignal = options.signal;
+    const abortFromCaller = () => controller.abort(callerSignal?.reason);
+    if (callerSignal?.aborted) {
+      abortFromCaller();
+    } else {
+      callerSignal?.addEventListener("abort", abortFromCaller);
+    }
+
     try {
-      const response = await fetch(url, {
-        ...options,
-        headers,
-      });
+      let response: Response;
+      try {
+        response = await fetch(url, {
+          ...options,
+          headers,
+          signal: controller.signal,
+        });
+      } catch (error) {
+        // fetch only rejects when no response was received.
+        if (timedOut) {
+          throw new TimeoutError();
+        }
+        // The caller cancelled: hand back their abort reason untouched
+        if (callerSignal?.aborted) {
+          throw error;
+        }
+        throw new NetworkError();
+      } finally {
+        clearTimeout(timeoutId);
+        callerSignal?.removeEventListener("abort", abortFromCaller);
+      }
 
-      // If the response is not OK, throw an error to be handled by the caller.
+      // Expired access token: refresh and replay the request once.
+      // Auth endpoints are excluded so a rejected login or refresh cannot loop.
+      if (
+        response.status === 401 &&
+        retryOnUnauthorized &&
+        !endpoint.startsWith("/api/v1/auth/")
+      ) {
+        const refreshed = await this.refreshAccessToken();
+        if (refreshed) {
+          return this.request<T>(endpoint, options, dataSchema, false);
+        }
+        this.clearToken();
+        this.authFailureHandler?.();
+        throw new UnauthorizedError();
+      }
+
+      // If the response is not OK, throw a typed error built from the backend's ApiResponse body.
       if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
+        const body = await response.json().catch(() => null);
+        throw createApiError(response.status, body, endpoint);
       }
 
       // Parse and return the JSON response.
-      return await response.json();
+      const body = await response.json();
+      if (dataSchema) {
+        this.validateResponse(endpoint, body, dataSchema);
+      }
+      return body;
     } catch (error) {
       // Log and rethrow errors for visibility and upstream handling.
       console.error("API request failed:", error);
@@ -230,6 +582,19 @@ class ApiClient {
     }
   }
 
+  /**
+   * Check a response body against its schema and report any mismatch as schema drift.
+   * Never throws: the unvalidated payload is still returned to the caller.
+   */
+  private validateResponse(endpoint: string, body: unknown, dataSchema: z.ZodTypeAny) {
+    if (!shouldValidateResponses) return;
+
+    const result = apiResponseSchema(dataSchema).safeParse(body);
+    if (!result.success) {
+      reportSchemaDrift({ endpoint: toEndpointRoute(endpoint), issues: result.error.issues });
+    }
+  }
+
   // ------------------ Authentication endpoints ------------------
 
   /**
@@ -251,7 +616,7 @@ class ApiClient {
     return this.request("/api/v1/auth/register", {
       method: "POST",
       body: JSON.stringify(data),
-    });
+    }, userSchema);
   }
 
   /**
@@ -282,7 +647,7 @@ class ApiClient {
    * Get current user's profile.
    */
   async getUserProfile(): Promise<ApiResponse<User>> {
-    return this.request("/api/v1/users/profile");
+    return this.request("/api/v1/users/profile", {}, userSchema);
   }
 
   /**
@@ -292,7 +657,7 @@ class ApiClient {
     return this.request("/api/v1/users/profile", {
       method: "PUT",
       body: JSON.stringify(data),
-    });
+    }, userSchema);
   }
 
   // ------------------ Group endpoints ------------------
@@ -301,7 +666,7 @@ class ApiClient {
    * Get all groups for the current user.
    */
   async getUserGroups(): Promise<ApiResponse<Group[]>> {
-    return this.request("/api/v1/groups");
+    return this.request("/api/v1/groups", {}, groupSchema.array());
   }
 
   /**
@@ -311,21 +676,25 @@ class ApiClient {
     return this.request("/api/v1/groups", {
       method: "POST",
       body: JSON.stringify(data),
-    });
+    }, groupSchema);
   }
 
   /**
    * Get details for a specific group.
    */
   async getGroup(groupId: string): Promise<ApiResponse<Group>> {
-    return this.request(`/api/v1/groups/${groupId}`);
+    return this.request(`/api/v1/groups/${groupId}`, {}, groupSchema);
   }
 
   /**
    * Get all members for a specific group.
    */
   async getGroupMembers(groupId: string): Promise<ApiResponse<GroupMember[]>> {
-    return this.request(`/api/v1/groups/${groupId}/members`);
+    return this.request(
+      `/api/v1/groups/${groupId}/members`,
+      {},
+      groupMemberSchema.array()
+    );
   }
 
   /**
@@ -360,14 +729,14 @@ class ApiClient {
    * Get all rides for the current user.
    */
   async getUserRides(): Promise<ApiResponse<Ride[]>> {
-    return this.request("/api/v1/rides");
+    return this.request("/api/v1/rides", {}, rideSchema.array());
   }
 
   /**
    * Get all rides for a specific group.
    */
   async getGroupRides(groupId: string): Promise<ApiResponse<Ride[]>> {
-    return this.request(`/api/v1/rides/group/${groupId}`);
+    return this.request(`/api/v1/rides/group/${groupId}`, {}, rideSchema.array());
   }
 
   /**
@@ -377,14 +746,14 @@ class ApiClient {
     return this.request("/api/v1/rides", {
       method: "POST",
       body: JSON.stringify(data),
-    });
+    }, rideSchema);
   }
 
   /**
    * Get details for a specific ride.
    */
   async getRide(rideId: string): Promise<ApiResponse<Ride>> {
-    return this.request(`/api/v1/rides/${rideId}`);
+    return this.request(`/api/v1/rides/${rideId}`, {}, rideSchema);
   }
 
   /**
@@ -397,7 +766,7 @@ class ApiClient {
     return this.request(`/api/v1/rides/${rideId}`, {
       method: "PUT",
       body: JSON.stringify(data),
-    });
+    }, rideSchema);
   }
 
   /**
@@ -406,7 +775,7 @@ class ApiClient {
   async startRide(rideId: string): Promise<ApiResponse<Ride>> {
     return this.request(`/api/v1/rides/${rideId}/start`, {
       method: "POST",
-    });
+    }, rideSchema);
   }
 
   /**
@@ -415,7 +784,7 @@ class ApiClient {
   async pauseRide(rideId: string): Promise<ApiResponse<Ride>> {
     return this.request(`/api/v1/rides/${rideId}/pause`, {
       method: "POST",
-    });
+    }, rideSchema);
   }
 
   /**
@@ -424,7 +793,7 @@ class ApiClient {
   async resumeRide(rideId: string): Promise<ApiResponse<Ride>> {
     return this.request(`/api/v1/rides/${rideId}/resume`, {
       method: "POST",
-    });
+    }, rideSchema);
   }
 
   /**
@@ -433,7 +802,16 @@ class ApiClient {
   async endRide(rideId: string): Promise<ApiResponse<Ride>> {
     return this.request(`/api/v1/rides/${rideId}/end`, {
       method: "POST",
-    });
+    }, rideSchema);
+  }
+
+  /**
+   * Cancel a ride that hasn't started. It stays listed so calendars show the cancellation.
+   */
+  async cancelRide(rideId: string): Promise<ApiResponse<Ride>> {
+    return this.request(`/api/v1/rides/${rideId}/cancel`, {
+      method: "POST",
+    }, rideSchema);
   }
 
   /**
@@ -445,6 +823,175 @@ class ApiClient {
     });
   }
 
+  // ------------------ Ride template endpoints ------------------
+
+  /**
+   * Get a group's ride templates.
+   */
+  async getGroupRideTemplates(groupId: string): Promise<ApiResponse<RideTemplate[]>> {
+    return this.request(`/api/v1/groups/${groupId}/ride-templates`, {}, rideTemplateSchema.array());
+  }
+
+  /**
+   * Create a ride template for a group.
+   */
+  async createRideTemplate(groupId: string, data: RideTemplateRequest): Promise<ApiResponse<RideTemplate>> {
+    return this.request(`/api/v1/groups/${groupId}/ride-templates`, {
+      method: "POST",
+      body: JSON.stringify(data),
+    }, rideTemplateSchema);
+  }
+
+  /**
+   * Update a ride template. Rides already generated from it are not changed.
+   */
+  async updateRideTemplate(
+    templateId: string,
+    data: Partial<RideTemplateRequest>
+  ): Promise<ApiResponse<RideTemplate>> {
+    return this.request(`/api/v1/ride-templates/${templateId}`, {
+      method: "PUT",
+      body: JSON.stringify(data),
+    }, rideTemplateSchema);
+  }
+
+  /**
+   * Schedule the ride for one occurrence (YYYY-MM-DD) of a series. Idempotent: if the series already
+   * has a ride on that date that isn't cancelled it's returned unchanged, so clients syncing the same
+   * series at once never create duplicates.
+   */
+  async scheduleRideOccurrence(
+    templateId: string,
+    occurrenceDate: string,
+    data: RideRequest
+  ): Promise<ApiResponse<Ride>> {
+    return this.request(`/api/v1/ride-templates/${templateId}/occurrences/${occurrenceDate}`, {
+      method: "PUT",
+      body: JSON.stringify(data),
+    }, rideSchema);
+  }
+
+  /**
+   * Cancel one occurrence (YYYY-MM-DD) of a series: its ride is cancelled and the date is added to the
+   * template's skipped dates, so the series doesn't schedule it again. Idempotent.
+   */
+  async skipRideOccurrence(templateId: string, occurrenceDate: string): Promise<ApiResponse<RideTemplate>> {
+    return this.request(`/api/v1/ride-templates/${templateId}/occurrences/${occurrenceDate}`, {
+      method: "DELETE",
+    }, rideTemplateSchema);
+  }
+
+  /**
+   * Delete a ride template.
+   */
+  async deleteRideTemplate(templateId: string): Promise<ApiResponse<any>> {
+    return this.request(`/api/v1/ride-templates/${templateId}`, {
+      method: "DELETE",
+    });
+  }
+
+  // ------------------ Calendar feed endpoints ------------------
+
+  /**
+   * Get the current user's calendar feed for a group, creating it on first use.
+   */
+  async getGroupCalendarFeed(groupId: string): Promise<ApiResponse<CalendarFeed>> {
+    return this.request(`/api/v1/groups/${groupId}/calendar-feed`, {}, calendarFeedSchema);
+  }
+
+  /**
+   * Replace the current user's feed token for a group. The previous feed URL stops working.
+   */
+  async resetGroupCalendarFeed(groupId: string): Promise<ApiResponse<CalendarFeed>> {
+    return this.request(`/api/v1/groups/${groupId}/calendar-feed/reset`, {
+      method: "POST",
+    }, calendarFeedSchema);
+  }
+
+  /**
+   * Get a feed's group and rides. Authorized by the feed token alone, for serving the feed to
+   * calendar apps.
+   */
+  async getCalendarFeedContent(token: string): Promise<ApiResponse<CalendarFeedContent>> {
+    return this.request(`/api/v1/calendar-feeds/${encodeURIComponent(token)}`, {}, calendarFeedContentSchema);
+  }
+
+  // ------------------ Ride member endpoints ------------------
+
+  /**
+   * Get all members of a ride with their last known positions.
+   */
+  async getRideMembers(rideId: string): Promise<ApiResponse<RideMember[]>> {
+    return this.request(
+      `/api/v1/rides/${rideId}/members`,
+      {},
+      rideMemberSchema.array()
+    );
+  }
+
+  /**
+   * Join a ride as the current user.
+   */
+  async joinRide(rideId: string): Promise<ApiResponse<RideMember>> {
+    return this.request(`/api/v1/rides/${rideId}/join`, {
+      method: "POST",
+    }, rideMemberSchema);
+  }
+
+  /**
+   * Leave a ride as the current user.
+   */
+  async leaveRide(rideId: string): Promise<ApiResponse<RideMember>> {
+    return this.request(`/api/v1/rides/${rideId}/leave`, {
+      method: "POST",
+    }, rideMemberSchema);
+  }
+
+  /**
+   * Set the current user's status within a ride (e.g. "arrived" on reaching the destination).
+   */
+  async updateRideMemberStatus(
+    rideId: string,
+    data: RideMemberStatusRequest
+  ): Promise<ApiResponse<RideMember>> {
+    return this.request(`/api/v1/rides/${rideId}/status`, {
+      method: "PATCH",
+      body: JSON.stringify(data),
+    }, rideMemberSchema);
+  }
+
+  /**
+   * Get the RSVPs for a scheduled ride.
+   */
+  async getRideRsvps(rideId: string): Promise<ApiResponse<RideRsvp[]>> {
+    return this.request(`/api/v1/rides/${rideId}/rsvps`, {}, rideRsvpSchema.array());
+  }
+
+  /**
+   * Set the current user's RSVP for a scheduled ride, replacing any earlier answer.
+   */
+  async rsvpRide(rideId: string, data: RideRsvpRequest): Promise<ApiResponse<RideRsvp>> {
+    return this.request(`/api/v1/rides/${rideId}/rsvp`, {
+      method: "PUT",
+      body: JSON.stringify(data),
+    }, rideRsvpSchema);
+  }
+
+  /**
+   * Upload the current user's location fixes for a ride, in capture order. The newest fix also
+   * updates their roster entry (position, speed, heading) as returned by getRideMembers.
+   * Fixes carrying a clientId that the server has already stored are skipped, so retries are safe.
+   */
+  async updateRideLocations(
+    rideId: string,
+    data: LocationUpdateRequest[]
+  ): Promise<ApiResponse<LocationUpdate[]>> {
+    return this.request(`/api/v1/rides/${rideId}/locations`, {
+      method: "POST",
+      body: JSON.stringify({ updates: data }),
+    }, locationUpdateSchema.array());
+  }
+
   // ------------------ Location endpoints ------------------
 
   /**
@@ -456,7 +1003,7 @@ class ApiClient {
     return this.request("/api/v1/location/update", {
       method: "POST",
       body: JSON.stringify(data),
-    });
+    }, locationUpdateSchema);
   }
 
   /**
@@ -465,7 +1012,11 @@ class ApiClient {
   async getLocationUpdatesForRide(
     rideId: string
   ): Promise<ApiResponse<LocationUpdate[]>> {
-    return this.request(`/api/v1/location/ride/${rideId}`);
+    return this.request(
+      `/api/v1/location/ride/${rideId}`,
+      {},
+      locationUpdateSchema.array()
+    );
   }
 
   /**
@@ -474,7 +1025,11 @@ class ApiClient {
   async getCurrentGroupLocations(
     groupId: string
   ): Promise<ApiResponse<LocationUpdate[]>> {
-    return this.request(`/api/v1/location/group/${groupId}/current`);
+    return this.request(
+      `/api/v1/location/group/${groupId}/current`,
+      {},
+      locationUpdateSchema.array()
+    );
   }
 
   /**
@@ -484,7 +1039,11 @@ class ApiClient {
     groupId: string,
     rideId: string
   ): Promise<ApiResponse<LocationUpdate[]>> {
-    return this.request(`/api/v1/location/group/${groupId}/ride/${rideId}`);
+    return this.request(
+      `/api/v1/location/group/${groupId}/ride/${rideId}`,
+      {},
+      locationUpdateSchema.array()
+    );
   }
 
   /**
@@ -502,7 +1061,11 @@ class ApiClient {
     if (radius) {
       params.append("radius", radius.toString());
     }
-    return this.request(`/api/v1/location/nearby?${params}`);
+    return this.request(
+      `/api/v1/location/nearby?${params}`,
+      {},
+      locationUpdateSchema.array()
+    );
   }
 
   // ------------------ Alert endpoints ------------------
@@ -519,14 +1082,14 @@ class ApiClient {
     return this.request("/api/v1/alerts", {
       method: "POST",
       body: JSON.stringify(data),
-    });
+    }, alertSchema);
   }
 
   /**
    * Get all alerts for a ride.
    */
   async getRideAlerts(rideId: string): Promise<ApiResponse<Alert[]>> {
-    return this.request(`/api/v1/rides/${rideId}/alerts`);
+    return this.request(`/api/v1/rides/${rideId}/alerts`, {}, alertSchema.array());
   }
 
   /**
@@ -544,7 +1107,11 @@ class ApiClient {
   async getUserNotificationPreferences(): Promise<
     ApiResponse<NotificationPreferences>
   > {
-    return this.request("/api/v1/user/notification-preferences");
+    return this.request(
+      "/api/v1/user/notification-preferences",
+      {},
+      notificationPreferencesSchema
+    );
   }
 
   /**
@@ -556,7 +1123,7 @@ class ApiClient {
     return this.request("/api/v1/user/notification-preferences", {
       method: "PATCH",
       body: JSON.stringify(preferences),
-    });
+    }, notificationPreferencesSchema);
   }
 
   /**
@@ -574,7 +1141,7 @@ class ApiClient {
         type: "emergency",
         severity: "critical",
       }),
-    });
+    }, alertSchema);
   }
 }
 
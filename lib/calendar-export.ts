@@ -0,0 +1,169 @@
+/**
+ * Scheduled Ride Calendar Export
+ *
+ * Serializes scheduled rides to iCalendar (RFC 5545), both for downloading a single ride as an .ics
+ * file and for the per-user group feed that calendar apps subscribe to (see app/api/calendar).
+ * - Each ride is one VEVENT whose UID is stable across exports, so re-importing or refreshing the feed
+ *   updates the event instead of duplicating it
+ * - Cancelled rides stay in the feed with STATUS:CANCELLED so subscribed calendars drop or strike them
+ * - SEQUENCE follows the ride's last update, so clients apply the newest version of an event
+ * Times are written in UTC; calendar apps show them in the subscriber's own time zone.
+ */
+
+import type { Ride } from "./api";
+import { describeRoute, getRouteMapUrl } from "./route";
+import { getDepartureTime } from "./ride-schedule";
+import { getFileSlug } from "./track-export";
+
+export const ICS_MIME_TYPE = "text/calendar";
+
+// Rides have no planned end; events get this length so they block out the afternoon or evening
+const RIDE_DURATION_MS = 2 * 60 * 60 * 1000;
+
+// Content lines longer than this many octets are folded (RFC 5545 §3.1)
+const MAX_LINE_OCTETS = 75;
+
+const PRODUCT_ID = "-//RideSync//Scheduled Rides//EN";
+const UID_DOMAIN = "ridesync.app";
+
+export interface CalendarExportOptions {
+  // Calendar name shown by the subscribing app
+  calendarName: string;
+  // Origin of this app, for links back to each ride
+  appUrl: string;
+}
+
+/**
+ * Escape a TEXT value: backslashes, separators and line breaks.
+ */
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/**
+ * UTC date-time, e.g. "20261020T163000Z".
+ */
+function toIcsDateTime(time: number): string {
+  return new Date(time).toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+/**
+ * Fold a content line into chunks of at most MAX_LINE_OCTETS UTF-8 octets, continuation lines
+ * starting with a space. Characters are never split across lines.
+ */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const chunks: string[] = [];
+  let chunk = "";
+  let octets = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // Continuation lines spend one octet on the leading space
+    const limit = chunks.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      chunks.push(chunk);
+      chunk = "";
+      octets = 0;
+    }
+    chunk += char;
+    octets += size;
+  }
+  chunks.push(chunk);
+  return chunks.join("\r\n ");
+}
+
+/**
+ * Where the ride meets: its first meeting point geofence, or else the start of its route.
+ */
+function getMeetingCoordinates(ride: Ride): { latitude: number; longitude: number } | null {
+  const meetingPoint = ride.geofences?.find(
+    (fence) => fence.kind === "meeting_point" && fence.shape.type === "circle"
+  );
+  if (meetingPoint?.shape.type === "circle") return meetingPoint.shape.center;
+  return ride.route?.[0] ?? null;
+}
+
+/**
+ * Content lines of one VEVENT. Returns an empty list for rides without a departure time.
+ */
+function toEventLines(ride: Ride, appUrl: string): string[] {
+  const departure = getDepartureTime(ride);
+  if (departure === null) return [];
+
+  const cancelled = ride.status === "CANCELLED";
+  const rideUrl = `${appUrl}/rides/${ride.id}`;
+  const routeUrl = getRouteMapUrl(ride.route);
+  const updated = new Date(ride.updatedAt).getTime();
+  const coordinates = getMeetingCoordinates(ride);
+  const routeSummary = describeRoute(ride.route);
+
+  const description = [
+    ride.description,
+    routeSummary && `Route: ${routeSummary}`,
+    routeUrl && `Route map: ${routeUrl}`,
+    `Ride details: ${rideUrl}`,
+  ]
+    .filter(Boolean)
+    .join("\n");
+
+  return [
+    "BEGIN:VEVENT",
+    `UID:${ride.id}@${UID_DOMAIN}`,
+    `DTSTAMP:${toIcsDateTime(Date.now())}`,
+    `DTSTART:${toIcsDateTime(departure)}`,
+    `DTEND:${toIcsDateTime(departure + RIDE_DURATION_MS)}`,
+    `SUMMARY:${escapeText(cancelled ? `Cancelled: ${ride.name}` : ride.name)}`,
+    `DESCRIPTION:${escapeText(description)}`,
+    ...(ride.startLocation ? [`LOCATION:${escapeText(ride.startLocation)}`] : []),
+    ...(coordinates ? [`GEO:${coordinates.latitude};${coordinates.longitude}`] : []),
+    `URL:${rideUrl}`,
+    `STATUS:${cancelled ? "CANCELLED" : "CONFIRMED"}`,
+    // Whole seconds since the epoch only ever increase with each update, as SEQUENCE must
+    ...(Number.isNaN(updated)
+      ? []
+      : [`SEQUENCE:${Math.floor(updated / 1000)}`, `LAST-MODIFIED:${toIcsDateTime(updated)}`]),
+    "END:VEVENT",
+  ];
+}
+
+/**
+ * iCalendar document with one event per scheduled ride. Rides without a departure time are skipped.
+ */
+export function toIcsCalendar(rides: Ride[], { calendarName, appUrl }: CalendarExportOptions): string {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+    ...rides.flatMap((ride) => toEventLines(ride, appUrl)),
+    "END:VCALENDAR",
+  ];
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+/**
+ * File name for a single ride's event, e.g. "tuesday-loop.ics".
+ */
+export function getIcsFileName(ride: Ride): string {
+  return `${getFileSlug(ride)}.ics`;
+}
+
+/**
+ * Subscription URL of a calendar feed served by this app.
+ */
+export function getCalendarFeedUrl(appUrl: string, token: string): string {
+  return `${appUrl}/api/calendar/${encodeURIComponent(token)}.ics`;
+}
+
+/**
+ * The feed URL with the webcal scheme, which opens the subscribe prompt of the user's calendar app.
+ */
+export function toWebcalUrl(feedUrl: string): string {
+  return feedUrl.replace(/^https?:\/\//, "webcal://");
+}
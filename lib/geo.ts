@@ -0,0 +1,64 @@
+/**
+ * Geographic helpers.
+ *
+ * Small, dependency-free math on latitude/longitude pairs shared by location sync, map rendering and
+ * ride analytics. Distances are great-circle (haversine) distances in meters.
+ */
+
+/**
+ * A latitude/longitude pair in decimal degrees.
+ */
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+const EARTH_RADIUS_M = 6371000;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/**
+ * Great-circle distance between two points in meters.
+ */
+export function distanceMeters(a: LatLng, b: LatLng): number {
+  const dLat = toRadians(b.lat - a.lat);
+  const dLng = toRadians(b.lng - a.lng);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/**
+ * Project `point` onto the segment a-b. Returns how far along the segment the closest point lies
+ * (0 at a, 1 at b) and the distance to it in meters.
+ * Uses a local flat-earth approximation, which is accurate for segments up to a few tens of kilometers.
+ */
+export function projectOntoSegment(point: LatLng, a: LatLng, b: LatLng): { fraction: number; distance: number } {
+  const metersPerDegLat = (Math.PI * EARTH_RADIUS_M) / 180;
+  const metersPerDegLng = metersPerDegLat * Math.cos(toRadians(a.lat));
+  const px = (point.lng - a.lng) * metersPerDegLng;
+  const py = (point.lat - a.lat) * metersPerDegLat;
+  const bx = (b.lng - a.lng) * metersPerDegLng;
+  const by = (b.lat - a.lat) * metersPerDegLat;
+  const lengthSquared = bx * bx + by * by;
+  const fraction = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, (px * bx + py * by) / lengthSquared));
+  return { fraction, distance: Math.hypot(px - fraction * bx, py - fraction * by) };
+}
+
+/**
+ * Shortest distance in meters from `point` to the segment a-b.
+ */
+export function distanceToSegmentMeters(point: LatLng, a: LatLng, b: LatLng): number {
+  return projectOntoSegment(point, a, b).distance;
+}
+
+/**
+ * Human-readable distance, e.g. "400m" or "2.3km".
+ */
+export function formatDistance(meters: number): string {
+  if (meters < 1000) {
+    return `${Math.round(meters / 10) * 10}m`;
+  }
+  return `${(meters / 1000).toFixed(1)}km`;
+}
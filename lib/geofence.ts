@@ -0,0 +1,118 @@
+/**
+ * Geofences
+ *
+ * Containment tests for a ride's circular and polygon geofences, and the member status changes that
+ * entering or leaving them implies:
+ * - meeting_point: entering means the rider is waiting; leaving means they're on their way
+ * - destination: entering means the rider has arrived
+ * - rest_stop: reported, but doesn't change status
+ * A rider must get EXIT_MARGIN_M clear of a fence before it counts as an exit, so GPS jitter at the
+ * boundary doesn't produce a stream of enter/exit events.
+ */
+
+import type { Geofence, GeoPoint, RideMemberStatus } from "./api";
+import { distanceMeters, distanceToSegmentMeters, type LatLng } from "./geo";
+
+export type GeofenceEventType = "enter" | "exit";
+
+export const GEOFENCE_KINDS: Record<Geofence["kind"], { label: string; color: string }> = {
+  meeting_point: { label: "Meeting point", color: "#eab308" },
+  destination: { label: "Destination", color: "#22c55e" },
+  rest_stop: { label: "Rest stop", color: "#8b5cf6" },
+};
+
+export const EXIT_MARGIN_M = 20;
+
+// Vertices used to draw a circle as a polygon
+const CIRCLE_SEGMENTS = 48;
+
+const toLatLng = (point: GeoPoint): LatLng => ({ lat: point.latitude, lng: point.longitude });
+
+/**
+ * Outline of a geofence for drawing. Circles are approximated by a polygon.
+ */
+export function getGeofencePath(fence: Geofence): LatLng[] {
+  if (fence.shape.type === "polygon") {
+    return fence.shape.points.map(toLatLng);
+  }
+
+  const { center, radiusMeters } = fence.shape;
+  const metersPerDegLat = 111320;
+  const metersPerDegLng = metersPerDegLat * Math.cos((center.latitude * Math.PI) / 180);
+  return Array.from({ length: CIRCLE_SEGMENTS }, (_, i) => {
+    const angle = (2 * Math.PI * i) / CIRCLE_SEGMENTS;
+    return {
+      lat: center.latitude + (radiusMeters * Math.sin(angle)) / metersPerDegLat,
+      lng: center.longitude + (radiusMeters * Math.cos(angle)) / metersPerDegLng,
+    };
+  });
+}
+
+/**
+ * Ray-casting point-in-polygon test.
+ */
+function isInsidePolygon(point: LatLng, polygon: LatLng[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if (a.lat > point.lat !== b.lat > point.lat) {
+      const crossingLng = ((b.lng - a.lng) * (point.lat - a.lat)) / (b.lat - a.lat) + a.lng;
+      if (point.lng < crossingLng) inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * How far (meters) a point is outside a geofence; 0 when it's inside.
+ */
+export function distanceOutsideGeofence(point: LatLng, fence: Geofence): number {
+  if (fence.shape.type === "circle") {
+    return Math.max(0, distanceMeters(point, toLatLng(fence.shape.center)) - fence.shape.radiusMeters);
+  }
+
+  const polygon = fence.shape.points.map(toLatLng);
+  if (isInsidePolygon(point, polygon)) return 0;
+
+  let shortest = Infinity;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    shortest = Math.min(shortest, distanceToSegmentMeters(point, polygon[j], polygon[i]));
+  }
+  return shortest;
+}
+
+/**
+ * The status a member moves to on entering or leaving a geofence, or null if it doesn't change.
+ * Members who have left the ride or already arrived keep their status.
+ */
+export function getStatusTransition(
+  fence: Geofence,
+  type: GeofenceEventType,
+  current: RideMemberStatus
+): RideMemberStatus | null {
+  if (current === "left" || current === "arrived") return null;
+
+  let next: RideMemberStatus | null = null;
+  if (fence.kind === "meeting_point") {
+    next = type === "enter" ? "waiting" : "on-route";
+  } else if (fence.kind === "destination" && type === "enter") {
+    next = "arrived";
+  }
+  return next !== current ? next : null;
+}
+
+/**
+ * Alert text for a geofence event, completing "<member name> ...".
+ */
+export function describeGeofenceEvent(fence: Geofence, type: GeofenceEventType): string {
+  if (type === "exit") return `left ${fence.name}`;
+  switch (fence.kind) {
+    case "destination":
+      return `arrived at ${fence.name}`;
+    case "meeting_point":
+      return `is waiting at ${fence.name}`;
+    case "rest_stop":
+      return `stopped at ${fence.name}`;
+  }
+}
@@ -0,0 +1,149 @@
+/**
+ * Offline Location Buffer
+ *
+ * Persists location fixes that couldn't be uploaded (no signal, server unreachable) in IndexedDB so they
+ * survive reloads and can be backfilled in their original order once connectivity returns.
+ * Entries are keyed by ride and fix timestamp, so re-queuing the same fix is a no-op.
+ * Falls back to an in-memory store where IndexedDB is unavailable (private browsing, SSR).
+ */
+
+import type { LocationUpdateRequest } from "./api";
+
+/**
+ * A fix ready for upload: ride-scoped, with its original capture time and client id.
+ */
+export type PendingLocation = LocationUpdateRequest & {
+  rideId: string;
+  timestamp: string;
+  clientId: string;
+};
+
+/**
+ * A buffered fix awaiting upload.
+ */
+export interface BufferedLocation extends PendingLocation {
+  key: string;
+}
+
+const DB_NAME = "ridesync";
+const DB_VERSION = 1;
+const STORE_NAME = "pendingLocations";
+
+// Used when IndexedDB can't be opened.
+const memoryStore = new Map<string, BufferedLocation>();
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+/**
+ * Open (and on first use create) the buffer database. Resolves to null if IndexedDB is unavailable.
+ */
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve) => {
+    if (typeof indexedDB === "undefined") {
+      resolve(null);
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(STORE_NAME, { keyPath: "key" });
+      store.createIndex("rideId", "rideId", { unique: false });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      console.error("Failed to open location buffer:", request.error);
+      resolve(null);
+    };
+  });
+
+  return dbPromise;
+}
+
+/**
+ * Wrap an IDBRequest in a promise.
+ */
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Build the buffer key for a fix. One fix per ride per timestamp.
+ */
+function bufferKey(rideId: string, timestamp: string) {
+  return `${rideId}:${timestamp}`;
+}
+
+/**
+ * Queue a fix for later upload.
+ */
+export async function bufferLocation(location: PendingLocation): Promise<void> {
+  const entry: BufferedLocation = {
+    ...location,
+    key: bufferKey(location.rideId, location.timestamp),
+  };
+
+  const db = await openDatabase();
+  if (!db) {
+    memoryStore.set(entry.key, entry);
+    return;
+  }
+
+  const tx = db.transaction(STORE_NAME, "readwrite");
+  await promisify(tx.objectStore(STORE_NAME).put(entry));
+}
+
+/**
+ * Get all buffered fixes for a ride, oldest first.
+ */
+export async function getBufferedLocations(rideId: string): Promise<BufferedLocation[]> {
+  const db = await openDatabase();
+  let entries: BufferedLocation[];
+
+  if (!db) {
+    entries = Array.from(memoryStore.values()).filter((entry) => entry.rideId === rideId);
+  } else {
+    const tx = db.transaction(STORE_NAME, "readonly");
+    entries = await promisify(
+      tx.objectStore(STORE_NAME).index("rideId").getAll(rideId) as IDBRequest<BufferedLocation[]>
+    );
+  }
+
+  return entries.sort(
+    (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+  );
+}
+
+/**
+ * Count buffered fixes for a ride.
+ */
+export async function countBufferedLocations(rideId: string): Promise<number> {
+  const db = await openDatabase();
+  if (!db) {
+    return Array.from(memoryStore.values()).filter((entry) => entry.rideId === rideId).length;
+  }
+
+  const tx = db.transaction(STORE_NAME, "readonly");
+  return promisify(tx.objectStore(STORE_NAME).index("rideId").count(rideId));
+}
+
+/**
+ * Remove fixes that were uploaded (or deliberately dropped).
+ */
+export async function removeBufferedLocations(keys: string[]): Promise<void> {
+  if (keys.length === 0) return;
+
+  const db = await openDatabase();
+  if (!db) {
+    keys.forEach((key) => memoryStore.delete(key));
+    return;
+  }
+
+  const tx = db.transaction(STORE_NAME, "readwrite");
+  const store = tx.objectStore(STORE_NAME);
+  await Promise.all(keys.map((key) => promisify(store.delete(key))));
+}
@@ -0,0 +1,160 @@
+/**
+ * GPS Noise Filtering
+ *
+ * Cleans up a stream of position fixes from one device before it is shared or drawn:
+ * 1. Accuracy gating: fixes with a worse reported accuracy than the threshold are rejected.
+ * 2. Plausibility: a fix implying a speed no rider could reach (urban-canyon jumps) is rejected.
+ * 3. Smoothing: accepted fixes go through a Kalman-style filter that weighs each fix by its accuracy
+ *    against the uncertainty accumulated since the previous one.
+ */
+
+import { distanceMeters } from "./geo";
+
+/**
+ * A single position fix as reported by the device.
+ */
+export interface PositionSample {
+  latitude: number;
+  longitude: number;
+  accuracy?: number;
+  timestamp: string;
+}
+
+/**
+ * Result of filtering one fix. When rejected, latitude/longitude hold the previous estimate.
+ */
+export interface FilterResult {
+  accepted: boolean;
+  rejectReason?: "accuracy" | "speed";
+  latitude: number;
+  longitude: number;
+  // Estimated accuracy (meters) of the smoothed position
+  accuracy: number;
+}
+
+export interface LocationFilterOptions {
+  // Fixes reporting a worse accuracy than this (meters) are rejected
+  maxAccuracy?: number;
+  // Fixes implying a faster movement than this (m/s) are rejected
+  maxSpeed?: number;
+  // Expected movement noise (m/s); higher values trust new fixes more
+  processNoise?: number;
+}
+
+const DEFAULT_OPTIONS: Required<LocationFilterOptions> = {
+  maxAccuracy: 100,
+  // ~200 km/h, comfortably above any group ride
+  maxSpeed: 55,
+  processNoise: 3,
+};
+
+// Accuracy assumed for fixes that don't report one
+const DEFAULT_ACCURACY_M = 20;
+// After this many speed rejections in a row the device has genuinely moved (or the previous estimate
+// was the outlier), so the filter starts over from the next fix
+const MAX_CONSECUTIVE_SPEED_REJECTIONS = 5;
+
+export class LocationFilter {
+  private options: Required<LocationFilterOptions>;
+  private latitude = 0;
+  private longitude = 0;
+  private timestamp = 0;
+  // Variance of the current estimate in m²; negative until the first fix is accepted
+  private variance = -1;
+  private speedRejections = 0;
+
+  constructor(options: LocationFilterOptions = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Filter the next fix from this device. Fixes must be passed in capture order.
+   */
+  process(sample: PositionSample): FilterResult {
+    const accuracy = Math.max(1, sample.accuracy ?? DEFAULT_ACCURACY_M);
+    const timestamp = new Date(sample.timestamp).getTime();
+
+    if (accuracy > this.options.maxAccuracy) {
+      return this.reject("accuracy", sample);
+    }
+
+    // First fix: take it as-is
+    if (this.variance < 0) {
+      this.latitude = sample.latitude;
+      this.longitude = sample.longitude;
+      this.timestamp = timestamp;
+      this.variance = accuracy * accuracy;
+      return this.current(true);
+    }
+
+    const elapsedSeconds = Math.max(0, (timestamp - this.timestamp) / 1000);
+    const distance = distanceMeters(
+      { lat: this.latitude, lng: this.longitude },
+      { lat: sample.latitude, lng: sample.longitude }
+    );
+    // Allow for the combined uncertainty of both positions before judging the implied speed
+    const uncertainty = Math.sqrt(this.variance) + accuracy;
+    if (
+      elapsedSeconds > 0 &&
+      (distance - uncertainty) / elapsedSeconds > this.options.maxSpeed
+    ) {
+      this.speedRejections += 1;
+      if (this.speedRejections >= MAX_CONSECUTIVE_SPEED_REJECTIONS) {
+        this.reset();
+      }
+      return this.reject("speed", sample);
+    }
+    this.speedRejections = 0;
+
+    // Predict: uncertainty grows with time since the last fix
+    this.variance += elapsedSeconds * this.options.processNoise ** 2;
+    this.timestamp = timestamp;
+
+    // Update: blend in the new fix weighted by its accuracy
+    const gain = this.variance / (this.variance + accuracy * accuracy);
+    this.latitude += gain * (sample.latitude - this.latitude);
+    this.longitude += gain * (sample.longitude - this.longitude);
+    this.variance = (1 - gain) * this.variance;
+
+    return this.current(true);
+  }
+
+  /**
+   * Change the accuracy threshold, e.g. when the device switches to coarser sampling.
+   */
+  setMaxAccuracy(maxAccuracy: number) {
+    this.options = { ...this.options, maxAccuracy };
+  }
+
+  /**
+   * Forget all state, e.g. when tracking restarts after a long gap.
+   */
+  reset() {
+    this.variance = -1;
+    this.speedRejections = 0;
+  }
+
+  private current(accepted: boolean, rejectReason?: FilterResult["rejectReason"]): FilterResult {
+    return {
+      accepted,
+      rejectReason,
+      latitude: this.latitude,
+      longitude: this.longitude,
+      accuracy: Math.sqrt(this.variance),
+    };
+  }
+
+  private reject(reason: NonNullable<FilterResult["rejectReason"]>, sample: PositionSample): FilterResult {
+    // Nothing accepted yet: there's no estimate to fall back to, so echo the raw fix
+    if (this.variance < 0) {
+      return {
+        accepted: false,
+        rejectReason: reason,
+        latitude: sample.latitude,
+        longitude: sample.longitude,
+        accuracy: sample.accuracy ?? DEFAULT_ACCURACY_M,
+      };
+    }
+    return this.current(false, reason);
+  }
+}
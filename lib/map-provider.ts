@@ -0,0 +1,112 @@
+/**
+ * Map Provider Abstraction
+ *
+ * The map components draw through this interface instead of calling a specific map SDK, so the same
+ * UI works on Google Maps or on a self-hosted tile server. The provider is chosen by config:
+ * - NEXT_PUBLIC_MAP_PROVIDER: "google" or "tiles". Defaults to "google" when a Google Maps key is set,
+ *   otherwise "tiles".
+ * - NEXT_PUBLIC_GOOGLE_MAPS_API_KEY: key for the Google provider.
+ * - NEXT_PUBLIC_MAP_TILE_URL: XYZ tile template for the tile provider (defaults to OpenStreetMap).
+ * - NEXT_PUBLIC_MAP_TILE_ATTRIBUTION: attribution text shown with the tiles.
+ */
+
+import type { LatLng } from "./geo";
+import { GoogleMapProvider } from "./map-providers/google-map-provider";
+import { TileMapProvider } from "./map-providers/tile-map-provider";
+
+/**
+ * A circular marker with an optional info window shown on click.
+ * `infoHtml` is trusted HTML built by the caller.
+ */
+export interface MapMarkerOptions {
+  position: LatLng;
+  title: string;
+  color: string;
+  infoHtml?: string;
+}
+
+/**
+ * A line through a sequence of points.
+ */
+export interface MapPolylineOptions {
+  path: LatLng[];
+  color: string;
+  weight?: number;
+  opacity?: number;
+  dashed?: boolean;
+}
+
+/**
+ * A filled area, e.g. a geofence. Circles are passed as polygons approximating them.
+ */
+export interface MapPolygonOptions {
+  path: LatLng[];
+  color: string;
+  fillOpacity?: number;
+}
+
+/**
+ * Initial view when a map is mounted.
+ */
+export interface MapView {
+  center: LatLng;
+  zoom: number;
+}
+
+/**
+ * Operations every map backend supports. Markers and polylines are addressed by caller-chosen ids;
+ * calling set* with an existing id updates it in place.
+ */
+export interface MapProvider {
+  mount(container: HTMLElement, view: MapView): Promise<void>;
+  setMarker(id: string, options: MapMarkerOptions): void;
+  removeMarker(id: string): void;
+  setPolyline(id: string, options: MapPolylineOptions): void;
+  removePolyline(id: string): void;
+  setPolygon(id: string, options: MapPolygonOptions): void;
+  removePolygon(id: string): void;
+  fitBounds(points: LatLng[]): void;
+  // Subscribe to clicks on the map background. Returns an unsubscribe function.
+  onClick(handler: (position: LatLng) => void): () => void;
+  destroy(): void;
+}
+
+export type MapProviderKind = "google" | "tiles";
+
+export interface MapConfig {
+  provider: MapProviderKind;
+  googleMapsApiKey?: string;
+  tileUrl: string;
+  tileAttribution: string;
+}
+
+const DEFAULT_TILE_URL = "https://tile.openstreetmap.org/{z}/{x}/{y}.png";
+const DEFAULT_TILE_ATTRIBUTION = "© OpenStreetMap contributors";
+
+/**
+ * Read map configuration from the environment.
+ */
+export function getMapConfig(): MapConfig {
+  const googleMapsApiKey = process.env.NEXT_PUBLIC_GOOGLE_MAPS_API_KEY || undefined;
+  const requested = process.env.NEXT_PUBLIC_MAP_PROVIDER;
+  // Google needs a key; without one fall back to tiles rather than showing a broken map.
+  const provider: MapProviderKind =
+    requested === "tiles" || !googleMapsApiKey ? "tiles" : "google";
+
+  return {
+    provider,
+    googleMapsApiKey,
+    tileUrl: process.env.NEXT_PUBLIC_MAP_TILE_URL || DEFAULT_TILE_URL,
+    tileAttribution: process.env.NEXT_PUBLIC_MAP_TILE_ATTRIBUTION || DEFAULT_TILE_ATTRIBUTION,
+  };
+}
+
+/**
+ * Create the map provider selected by config.
+ */
+export function createMapProvider(config: MapConfig = getMapConfig()): MapProvider {
+  if (config.provider === "google" && config.googleMapsApiKey) {
+    return new GoogleMapProvider(config.googleMapsApiKey);
+  }
+  return new TileMapProvider(config.tileUrl, config.tileAttribution);
+}
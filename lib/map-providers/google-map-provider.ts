@@ -0,0 +1,223 @@
+/**
+ * Google Maps implementation of MapProvider.
+ *
+ * Loads the Maps JavaScript API on first use and draws markers as colored circle symbols.
+ */
+
+import type { LatLng } from "../geo";
+import type {
+  MapMarkerOptions,
+  MapPolygonOptions,
+  MapPolylineOptions,
+  MapProvider,
+  MapView,
+} from "../map-provider";
+
+// Shared across providers so the script is only injected once per page.
+let scriptPromise: Promise<void> | null = null;
+
+/**
+ * Inject the Google Maps script and resolve once `window.google.maps` is available.
+ */
+function loadGoogleMaps(apiKey: string): Promise<void> {
+  if ((window as any).google?.maps) return Promise.resolve();
+  if (scriptPromise) return scriptPromise;
+
+  scriptPromise = new Promise((resolve, reject) => {
+    const script = document.createElement("script");
+    script.src = `https://maps.googleapis.com/maps/api/js?key=${apiKey}&libraries=places`;
+    script.async = true;
+    script.defer = true;
+    script.onload = () => resolve();
+    script.onerror = () => {
+      scriptPromise = null;
+      reject(new Error("Failed to load Google Maps"));
+    };
+    document.head.appendChild(script);
+  });
+
+  return scriptPromise;
+}
+
+export class GoogleMapProvider implements MapProvider {
+  private apiKey: string;
+  private map: any = null;
+  private markers = new Map<string, { marker: any; infoWindow: any | null }>();
+  private polylines = new Map<string, any>();
+  private polygons = new Map<string, any>();
+  private clickHandlers = new Set<(position: LatLng) => void>();
+  // Set by destroy(), so a mount still waiting on the script doesn't create a map afterwards
+  private destroyed = false;
+
+  constructor(apiKey: string) {
+    this.apiKey = apiKey;
+  }
+
+  async mount(container: HTMLElement, view: MapView) {
+    await loadGoogleMaps(this.apiKey);
+    if (this.destroyed) return;
+    const maps = (window as any).google.maps;
+
+    this.map = new maps.Map(container, {
+      zoom: view.zoom,
+      center: view.center,
+      styles: [
+        {
+          featureType: "poi",
+          elementType: "labels",
+          stylers: [{ visibility: "off" }],
+        },
+      ],
+    });
+
+    this.map.addListener("click", (event: any) => {
+      const position = { lat: event.latLng.lat(), lng: event.latLng.lng() };
+      this.clickHandlers.forEach((handler) => handler(position));
+    });
+  }
+
+  setMarker(id: string, options: MapMarkerOptions) {
+    if (!this.map) return;
+    const maps = (window as any).google.maps;
+    const icon = {
+      path: maps.SymbolPath.CIRCLE,
+      scale: 8,
+      fillColor: options.color,
+      fillOpacity: 1,
+      strokeColor: "#ffffff",
+      strokeWeight: 2,
+    };
+
+    const existing = this.markers.get(id);
+    if (existing) {
+      existing.marker.setPosition(options.position);
+      existing.marker.setIcon(icon);
+      existing.marker.setTitle(options.title);
+      existing.infoWindow?.setContent(options.infoHtml);
+      return;
+    }
+
+    const marker = new maps.Marker({
+      position: options.position,
+      map: this.map,
+      title: options.title,
+      icon,
+    });
+
+    let infoWindow: any = null;
+    if (options.infoHtml) {
+      infoWindow = new maps.InfoWindow({ content: options.infoHtml });
+      marker.addListener("click", () => {
+        infoWindow.open(this.map, marker);
+      });
+    }
+
+    this.markers.set(id, { marker, infoWindow });
+  }
+
+  removeMarker(id: string) {
+    const existing = this.markers.get(id);
+    if (!existing) return;
+    existing.infoWindow?.close();
+    existing.marker.setMap(null);
+    this.markers.delete(id);
+  }
+
+  setPolyline(id: string, options: MapPolylineOptions) {
+    if (!this.map) return;
+    const maps = (window as any).google.maps;
+    const opacity = options.opacity ?? 0.8;
+    const style = options.dashed
+      ? {
+          // Google draws dashes as repeated line symbols over an invisible stroke
+          strokeOpacity: 0,
+          icons: [
+            {
+              icon: { path: "M 0,-1 0,1", strokeOpacity: opacity, scale: options.weight ?? 4 },
+              offset: "0",
+              repeat: "16px",
+            },
+          ],
+        }
+      : { strokeOpacity: opacity, icons: [] };
+
+    const existing = this.polylines.get(id);
+    if (existing) {
+      existing.setPath(options.path);
+      existing.setOptions({ strokeColor: options.color, strokeWeight: options.weight ?? 4, ...style });
+      return;
+    }
+
+    const polyline = new maps.Polyline({
+      path: options.path,
+      map: this.map,
+      strokeColor: options.color,
+      strokeWeight: options.weight ?? 4,
+      clickable: false,
+      ...style,
+    });
+    this.polylines.set(id, polyline);
+  }
+
+  removePolyline(id: string) {
+    const existing = this.polylines.get(id);
+    if (!existing) return;
+    existing.setMap(null);
+    this.polylines.delete(id);
+  }
+
+  setPolygon(id: string, options: MapPolygonOptions) {
+    if (!this.map) return;
+    const style = {
+      paths: options.path,
+      strokeColor: options.color,
+      strokeWeight: 2,
+      strokeOpacity: 0.8,
+      fillColor: options.color,
+      fillOpacity: options.fillOpacity ?? 0.15,
+    };
+
+    const existing = this.polygons.get(id);
+    if (existing) {
+      existing.setOptions(style);
+      return;
+    }
+
+    // Not clickable, so clicks inside an area still reach the map (e.g. while drawing)
+    const polygon = new (window as any).google.maps.Polygon({ ...style, map: this.map, clickable: false });
+    this.polygons.set(id, polygon);
+  }
+
+  removePolygon(id: string) {
+    const existing = this.polygons.get(id);
+    if (!existing) return;
+    existing.setMap(null);
+    this.polygons.delete(id);
+  }
+
+  fitBounds(points: LatLng[]) {
+    if (!this.map || points.length === 0) return;
+    const bounds = new (window as any).google.maps.LatLngBounds();
+    points.forEach((point) => bounds.extend(point));
+    this.map.fitBounds(bounds);
+  }
+
+  onClick(handler: (position: LatLng) => void) {
+    this.clickHandlers.add(handler);
+    return () => {
+      this.clickHandlers.delete(handler);
+    };
+  }
+
+  destroy() {
+    this.destroyed = true;
+    this.markers.forEach((_, id) => this.removeMarker(id));
+    this.polylines.forEach((_, id) => this.removePolyline(id));
+    this.polygons.forEach((_, id) => this.removePolygon(id));
+    this.clickHandlers.clear();
+    if (this.map) {
+      (window as any).google.maps.event.clearInstanceListeners(this.map);
+      this.map = null;
+    }
+  }
+}
@@ -0,0 +1,536 @@
+/**
+ * Tile-based implementation of MapProvider.
+ *
+ * A small slippy map that renders standard XYZ raster tiles (OpenStreetMap or a self-hosted tile
+ * server) in Web Mercator, with markers as DOM elements and polylines/polygons in an SVG overlay. Supports
+ * drag to pan, wheel/double-click/button zoom, info popups and background clicks. Needs no API key,
+ * so it works in development and test environments.
+ */
+
+import type { LatLng } from "../geo";
+import type {
+  MapMarkerOptions,
+  MapPolygonOptions,
+  MapPolylineOptions,
+  MapProvider,
+  MapView,
+} from "../map-provider";
+
+const TILE_SIZE = 256;
+const MIN_ZOOM = 2;
+const MAX_ZOOM = 19;
+// Web Mercator can't represent the poles
+const MAX_LATITUDE = 85.05112878;
+// Pointer movement (px) below which a press counts as a click rather than a drag
+const CLICK_TOLERANCE_PX = 4;
+// A second click within this time (ms) makes a double-click, which zooms instead of clicking twice
+const DOUBLE_CLICK_MS = 300;
+// Margin (px) kept around points when fitting bounds
+const FIT_PADDING_PX = 40;
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+/**
+ * Project a coordinate to world pixel space at a zoom level.
+ */
+function project(position: LatLng, zoom: number): Point {
+  const scale = TILE_SIZE * 2 ** zoom;
+  const lat = Math.max(-MAX_LATITUDE, Math.min(MAX_LATITUDE, position.lat));
+  const sin = Math.sin((lat * Math.PI) / 180);
+  return {
+    x: ((position.lng + 180) / 360) * scale,
+    y: (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * scale,
+  };
+}
+
+/**
+ * Inverse of project.
+ */
+function unproject(point: Point, zoom: number): LatLng {
+  const scale = TILE_SIZE * 2 ** zoom;
+  const lng = (point.x / scale) * 360 - 180;
+  const n = Math.PI - (2 * Math.PI * point.y) / scale;
+  const lat = (180 / Math.PI) * Math.atan(Math.sinh(n));
+  return { lat, lng };
+}
+
+export class TileMapProvider implements MapProvider {
+  private tileUrl: string;
+  private attribution: string;
+  private container: HTMLElement | null = null;
+  private tileLayer: HTMLDivElement | null = null;
+  private overlay: SVGSVGElement | null = null;
+  private markerLayer: HTMLDivElement | null = null;
+  private popup: HTMLDivElement | null = null;
+  private center: LatLng = { lat: 0, lng: 0 };
+  private zoom = MIN_ZOOM;
+  private tiles = new Map<string, HTMLImageElement>();
+  private markers = new Map<string, { element: HTMLDivElement; options: MapMarkerOptions }>();
+  private polylines = new Map<string, { element: SVGPolylineElement; options: MapPolylineOptions }>();
+  private polygons = new Map<string, { element: SVGPolygonElement; options: MapPolygonOptions }>();
+  private clickHandlers = new Set<(position: LatLng) => void>();
+  private openPopupId: string | null = null;
+  private resizeObserver: ResizeObserver | null = null;
+  private cleanupListeners: (() => void)[] = [];
+
+  constructor(tileUrl: string, attribution: string) {
+    this.tileUrl = tileUrl;
+    this.attribution = attribution;
+  }
+
+  async mount(container: HTMLElement, view: MapView) {
+    this.container = container;
+    this.center = view.center;
+    this.zoom = Math.round(view.zoom);
+
+    container.style.position = "relative";
+    container.style.overflow = "hidden";
+    container.style.touchAction = "none";
+    container.style.background = "#e5e7eb";
+
+    this.tileLayer = document.createElement("div");
+    this.tileLayer.style.cssText = "position:absolute;inset:0;";
+
+    this.overlay = document.createElementNS("http://www.w3.org/2000/svg", "svg");
+    this.overlay.style.cssText = "position:absolute;inset:0;width:100%;height:100%;pointer-events:none;";
+
+    this.markerLayer = document.createElement("div");
+    this.markerLayer.style.cssText = "position:absolute;inset:0;";
+
+    container.append(this.tileLayer, this.overlay, this.markerLayer);
+    container.append(this.createZoomControls(), this.createAttribution());
+
+    this.bindInteractions(container);
+    this.resizeObserver = new ResizeObserver(() => this.render());
+    this.resizeObserver.observe(container);
+
+    this.render();
+  }
+
+  setMarker(id: string, options: MapMarkerOptions) {
+    if (!this.markerLayer) return;
+
+    const existing = this.markers.get(id);
+    const element = existing?.element ?? document.createElement("div");
+    element.title = options.title;
+    element.style.cssText = `position:absolute;width:16px;height:16px;margin:-8px 0 0 -8px;border-radius:50%;border:2px solid #fff;box-shadow:0 1px 3px rgba(0,0,0,.4);cursor:pointer;background:${options.color};`;
+
+    if (!existing) {
+      // Keep marker presses from starting a map drag/click
+      element.addEventListener("pointerdown", (event) => event.stopPropagation());
+      element.addEventListener("click", (event) => {
+        event.stopPropagation();
+        this.openPopup(id);
+      });
+      this.markerLayer.appendChild(element);
+    }
+
+    this.markers.set(id, { element, options });
+    this.positionMarker(id);
+    if (this.openPopupId === id) {
+      this.openPopup(id);
+    }
+  }
+
+  removeMarker(id: string) {
+    const existing = this.markers.get(id);
+    if (!existing) return;
+    existing.element.remove();
+    this.markers.delete(id);
+    if (this.openPopupId === id) {
+      this.closePopup();
+    }
+  }
+
+  setPolyline(id: string, options: MapPolylineOptions) {
+    if (!this.overlay) return;
+
+    const existing = this.polylines.get(id);
+    const element =
+      existing?.element ?? document.createElementNS("http://www.w3.org/2000/svg", "polyline");
+    element.setAttribute("fill", "none");
+    element.setAttribute("stroke", options.color);
+    element.setAttribute("stroke-width", String(options.weight ?? 4));
+    element.setAttribute("stroke-opacity", String(options.opacity ?? 0.8));
+    element.setAttribute("stroke-linejoin", "round");
+    element.setAttribute("stroke-linecap", "round");
+    if (options.dashed) {
+      element.setAttribute("stroke-dasharray", "8 8");
+    } else {
+      element.removeAttribute("stroke-dasharray");
+    }
+
+    if (!existing) {
+      this.overlay.appendChild(element);
+    }
+    this.polylines.set(id, { element, options });
+    this.positionPolyline(id);
+  }
+
+  removePolyline(id: string) {
+    const existing = this.polylines.get(id);
+    if (!existing) return;
+    existing.element.remove();
+    this.polylines.delete(id);
+  }
+
+  setPolygon(id: string, options: MapPolygonOptions) {
+    if (!this.overlay) return;
+
+    const existing = this.polygons.get(id);
+    const element =
+      existing?.element ?? document.createElementNS("http://www.w3.org/2000/svg", "polygon");
+    element.setAttribute("fill", options.color);
+    element.setAttribute("fill-opacity", String(options.fillOpacity ?? 0.15));
+    element.setAttribute("stroke", options.color);
+    element.setAttribute("stroke-width", "2");
+    element.setAttribute("stroke-opacity", "0.8");
+
+    if (!existing) {
+      // Areas go underneath lines
+      this.overlay.insertBefore(element, this.overlay.firstChild);
+    }
+    this.polygons.set(id, { element, options });
+    this.positionPolygon(id);
+  }
+
+  removePolygon(id: string) {
+    const existing = this.polygons.get(id);
+    if (!existing) return;
+    existing.element.remove();
+    this.polygons.delete(id);
+  }
+
+  fitBounds(points: LatLng[]) {
+    if (!this.container || points.length === 0) return;
+
+    const width = Math.max(1, this.container.clientWidth - FIT_PADDING_PX * 2);
+    const height = Math.max(1, this.container.clientHeight - FIT_PADDING_PX * 2);
+
+    // Highest zoom at which every point fits
+    let zoom = MAX_ZOOM;
+    for (; zoom > MIN_ZOOM; zoom--) {
+      const projected = points.map((point) => project(point, zoom));
+      const spanX = Math.max(...projected.map((p) => p.x)) - Math.min(...projected.map((p) => p.x));
+      const spanY = Math.max(...projected.map((p) => p.y)) - Math.min(...projected.map((p) => p.y));
+      if (spanX <= width && spanY <= height) break;
+    }
+    // A single point would otherwise zoom all the way in
+    zoom = Math.min(zoom, 16);
+
+    const projected = points.map((point) => project(point, zoom));
+    const centerPoint = {
+      x: (Math.max(...projected.map((p) => p.x)) + Math.min(...projected.map((p) => p.x))) / 2,
+      y: (Math.max(...projected.map((p) => p.y)) + Math.min(...projected.map((p) => p.y))) / 2,
+    };
+
+    this.zoom = zoom;
+    this.center = unproject(centerPoint, zoom);
+    this.render();
+  }
+
+  onClick(handler: (position: LatLng) => void) {
+    this.clickHandlers.add(handler);
+    return () => {
+      this.clickHandlers.delete(handler);
+    };
+  }
+
+  destroy() {
+    this.resizeObserver?.disconnect();
+    this.cleanupListeners.forEach((cleanup) => cleanup());
+    this.cleanupListeners = [];
+    this.clickHandlers.clear();
+    this.markers.clear();
+    this.polylines.clear();
+    this.polygons.clear();
+    this.tiles.clear();
+    this.container?.replaceChildren();
+    this.container = null;
+  }
+
+  // ------------------ Rendering ------------------
+
+  /**
+   * World pixel of the container's top-left corner.
+   */
+  private origin(): Point {
+    const center = project(this.center, this.zoom);
+    return {
+      x: center.x - (this.container?.clientWidth ?? 0) / 2,
+      y: center.y - (this.container?.clientHeight ?? 0) / 2,
+    };
+  }
+
+  private toScreen(position: LatLng): Point {
+    const origin = this.origin();
+    const point = project(position, this.zoom);
+    return { x: point.x - origin.x, y: point.y - origin.y };
+  }
+
+  private render() {
+    if (!this.container) return;
+    this.renderTiles();
+    this.markers.forEach((_, id) => this.positionMarker(id));
+    this.polylines.forEach((_, id) => this.positionPolyline(id));
+    this.polygons.forEach((_, id) => this.positionPolygon(id));
+    if (this.openPopupId) {
+      this.positionPopup(this.openPopupId);
+    }
+  }
+
+  private renderTiles() {
+    if (!this.container || !this.tileLayer) return;
+
+    const origin = this.origin();
+    const tileCount = 2 ** this.zoom;
+    const minX = Math.floor(origin.x / TILE_SIZE);
+    const minY = Math.max(0, Math.floor(origin.y / TILE_SIZE));
+    const maxX = Math.floor((origin.x + this.container.clientWidth) / TILE_SIZE);
+    const maxY = Math.min(tileCount - 1, Math.floor((origin.y + this.container.clientHeight) / TILE_SIZE));
+
+    const visible = new Set<string>();
+    for (let x = minX; x <= maxX; x++) {
+      for (let y = minY; y <= maxY; y++) {
+        // Wrap horizontally around the antimeridian
+        const wrappedX = ((x % tileCount) + tileCount) % tileCount;
+        const key = `${this.zoom}/${x}/${y}`;
+        visible.add(key);
+
+        let tile = this.tiles.get(key);
+        if (!tile) {
+          tile = document.createElement("img");
+          tile.src = this.tileUrl
+            .replace("{z}", String(this.zoom))
+            .replace("{x}", String(wrappedX))
+            .replace("{y}", String(y));
+          tile.alt = "";
+          tile.draggable = false;
+          tile.style.cssText = `position:absolute;width:${TILE_SIZE}px;height:${TILE_SIZE}px;user-select:none;`;
+          this.tiles.set(key, tile);
+          this.tileLayer.appendChild(tile);
+        }
+        tile.style.left = `${x * TILE_SIZE - origin.x}px`;
+        tile.style.top = `${y * TILE_SIZE - origin.y}px`;
+      }
+    }
+
+    // Drop tiles that scrolled out of view or belong to another zoom level
+    this.tiles.forEach((tile, key) => {
+      if (!visible.has(key)) {
+        tile.remove();
+        this.tiles.delete(key);
+      }
+    });
+  }
+
+  private positionMarker(id: string) {
+    const marker = this.markers.get(id);
+    if (!marker || !this.container) return;
+    const point = this.toScreen(marker.options.position);
+    marker.element.style.left = `${point.x}px`;
+    marker.element.style.top = `${point.y}px`;
+  }
+
+  private positionPolyline(id: string) {
+    const polyline = this.polylines.get(id);
+    if (!polyline || !this.container) return;
+    const points = polyline.options.path
+      .map((position) => {
+        const point = this.toScreen(position);
+        return `${point.x.toFixed(1)},${point.y.toFixed(1)}`;
+      })
+      .join(" ");
+    polyline.element.setAttribute("points", points);
+  }
+
+  private positionPolygon(id: string) {
+    const polygon = this.polygons.get(id);
+    if (!polygon || !this.container) return;
+    const points = polygon.options.path
+      .map((position) => {
+        const point = this.toScreen(position);
+        return `${point.x.toFixed(1)},${point.y.toFixed(1)}`;
+      })
+      .join(" ");
+    polygon.element.setAttribute("points", points);
+  }
+
+  // ------------------ Popups ------------------
+
+  private openPopup(id: string) {
+    const marker = this.markers.get(id);
+    if (!marker?.options.infoHtml || !this.container) return;
+
+    if (!this.popup) {
+      this.popup = document.createElement("div");
+      this.popup.style.cssText =
+        "position:absolute;transform:translate(-50%,calc(-100% - 14px));background:#fff;color:#111;border-radius:6px;box-shadow:0 2px 8px rgba(0,0,0,.3);min-width:160px;z-index:10;";
+      this.popup.addEventListener("click", (event) => event.stopPropagation());
+      this.popup.addEventListener("pointerdown", (event) => event.stopPropagation());
+      this.container.appendChild(this.popup);
+    }
+
+    this.popup.innerHTML = `<button type="button" aria-label="Close" style="position:absolute;top:2px;right:6px;font-size:14px;line-height:1;">×</button>${marker.options.infoHtml}`;
+    this.popup.querySelector("button")?.addEventListener("click", () => this.closePopup());
+    this.openPopupId = id;
+    this.positionPopup(id);
+  }
+
+  private positionPopup(id: string) {
+    const marker = this.markers.get(id);
+    if (!marker || !this.popup) return;
+    const point = this.toScreen(marker.options.position);
+    this.popup.style.left = `${point.x}px`;
+    this.popup.style.top = `${point.y}px`;
+  }
+
+  private closePopup() {
+    this.popup?.remove();
+    this.popup = null;
+    this.openPopupId = null;
+  }
+
+  // ------------------ Interaction ------------------
+
+  private setZoom(zoom: number, anchor?: Point) {
+    const nextZoom = Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, zoom));
+    if (nextZoom === this.zoom || !this.container) return;
+
+    // Keep the coordinate under the anchor (cursor) fixed while zooming
+    const origin = this.origin();
+    const anchorPoint = anchor ?? {
+      x: this.container.clientWidth / 2,
+      y: this.container.clientHeight / 2,
+    };
+    const anchorPosition = unproject({ x: origin.x + anchorPoint.x, y: origin.y + anchorPoint.y }, this.zoom);
+
+    this.zoom = nextZoom;
+    const anchorWorld = project(anchorPosition, nextZoom);
+    this.center = unproject(
+      {
+        x: anchorWorld.x - anchorPoint.x + this.container.clientWidth / 2,
+        y: anchorWorld.y - anchorPoint.y + this.container.clientHeight / 2,
+      },
+      nextZoom
+    );
+    this.render();
+  }
+
+  private bindInteractions(container: HTMLElement) {
+    let dragStart: { pointer: Point; center: Point } | null = null;
+    let moved = 0;
+    // Single click waiting out the double-click window before it's delivered
+    let pendingClick: ReturnType<typeof setTimeout> | null = null;
+
+    const onPointerDown = (event: PointerEvent) => {
+      if (event.button !== 0) return;
+      dragStart = { pointer: { x: event.clientX, y: event.clientY }, center: project(this.center, this.zoom) };
+      moved = 0;
+      container.setPointerCapture(event.pointerId);
+    };
+
+    const onPointerMove = (event: PointerEvent) => {
+      if (!dragStart) return;
+      const dx = event.clientX - dragStart.pointer.x;
+      const dy = event.clientY - dragStart.pointer.y;
+      moved = Math.max(moved, Math.abs(dx), Math.abs(dy));
+      this.center = unproject({ x: dragStart.center.x - dx, y: dragStart.center.y - dy }, this.zoom);
+      this.render();
+    };
+
+    const onPointerUp = (event: PointerEvent) => {
+      if (!dragStart) return;
+      dragStart = null;
+      container.releasePointerCapture(event.pointerId);
+
+      // A press without movement is a click on the map background. It's held back until the
+      // double-click window has passed, and dropped if it turns out to be half of a double-click.
+      if (moved < CLICK_TOLERANCE_PX) {
+        if (pendingClick) {
+          clearTimeout(pendingClick);
+          pendingClick = null;
+          return;
+        }
+        const rect = container.getBoundingClientRect();
+        const origin = this.origin();
+        const position = unproject(
+          { x: origin.x + event.clientX - rect.left, y: origin.y + event.clientY - rect.top },
+          this.zoom
+        );
+        pendingClick = setTimeout(() => {
+          pendingClick = null;
+          this.closePopup();
+          this.clickHandlers.forEach((handler) => handler(position));
+        }, DOUBLE_CLICK_MS);
+      }
+    };
+
+    const onWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const rect = container.getBoundingClientRect();
+      this.setZoom(this.zoom + (event.deltaY < 0 ? 1 : -1), {
+        x: event.clientX - rect.left,
+        y: event.clientY - rect.top,
+      });
+    };
+
+    const onDoubleClick = (event: MouseEvent) => {
+      const rect = container.getBoundingClientRect();
+      this.setZoom(this.zoom + 1, { x: event.clientX - rect.left, y: event.clientY - rect.top });
+    };
+
+    container.addEventListener("pointerdown", onPointerDown);
+    container.addEventListener("pointermove", onPointerMove);
+    container.addEventListener("pointerup", onPointerUp);
+    container.addEventListener("wheel", onWheel, { passive: false });
+    container.addEventListener("dblclick", onDoubleClick);
+
+    this.cleanupListeners.push(() => {
+      container.removeEventListener("pointerdown", onPointerDown);
+      container.removeEventListener("pointermove", onPointerMove);
+      container.removeEventListener("pointerup", onPointerUp);
+      container.removeEventListener("wheel", onWheel);
+      container.removeEventListener("dblclick", onDoubleClick);
+      if (pendingClick) clearTimeout(pendingClick);
+    });
+  }
+
+  private createZoomControls() {
+    const controls = document.createElement("div");
+    controls.style.cssText =
+      "position:absolute;top:10px;right:10px;display:flex;flex-direction:column;background:#fff;border-radius:4px;box-shadow:0 1px 4px rgba(0,0,0,.3);z-index:5;";
+
+    const buttonStyle = "width:30px;height:30px;font-size:18px;line-height:1;color:#111;";
+    [
+      { label: "+", title: "Zoom in", delta: 1 },
+      { label: "−", title: "Zoom out", delta: -1 },
+    ].forEach(({ label, title, delta }) => {
+      const button = document.createElement("button");
+      button.type = "button";
+      button.textContent = label;
+      button.title = title;
+      button.setAttribute("aria-label", title);
+      button.style.cssText = buttonStyle;
+      button.addEventListener("pointerdown", (event) => event.stopPropagation());
+      button.addEventListener("click", (event) => {
+        event.stopPropagation();
+        this.setZoom(this.zoom + delta);
+      });
+      controls.appendChild(button);
+    });
+
+    return controls;
+  }
+
+  private createAttribution() {
+    const attribution = document.createElement("div");
+    attribution.textContent = this.attribution;
+    attribution.style.cssText =
+      "position:absolute;right:0;bottom:0;padding:1px 5px;font-size:11px;background:rgba(255,255,255,.8);color:#333;z-index:5;";
+    return attribution;
+  }
+}
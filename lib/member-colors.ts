@@ -0,0 +1,30 @@
+/**
+ * Stable per-member colors for trails and other member overlays.
+ *
+ * Colors are derived from the user id, so a rider keeps the same color across the live map, replay
+ * and exports without any shared state.
+ */
+
+const MEMBER_COLORS = [
+  "#2563eb", // blue
+  "#db2777", // pink
+  "#16a34a", // green
+  "#9333ea", // purple
+  "#0891b2", // cyan
+  "#dc2626", // red
+  "#ca8a04", // amber
+  "#4f46e5", // indigo
+  "#059669", // emerald
+  "#c2410c", // orange
+];
+
+/**
+ * Color for a member, picked by hashing their user id into the palette.
+ */
+export function getMemberColor(userId: string): string {
+  let hash = 0;
+  for (let i = 0; i < userId.length; i++) {
+    hash = (hash * 31 + userId.charCodeAt(i)) | 0;
+  }
+  return MEMBER_COLORS[Math.abs(hash) % MEMBER_COLORS.length];
+}
@@ -0,0 +1,281 @@
+/**
+ * Ride Live Channel
+ *
+ * A single ride-scoped streaming connection shared by every hook that needs live ride data
+ * (member positions, ride status changes, new alerts). Connects over WebSocket and falls back to
+ * Server-Sent Events when the socket can't be opened. Drops are retried with exponential backoff,
+ * and a heartbeat timeout detects connections that are open but silent.
+ *
+ * When neither transport is available the channel reports "unavailable" and consumers are expected
+ * to fall back to polling the REST endpoints until the channel recovers.
+ */
+
+import { apiClient, type Alert, type Ride, type RideMember } from "./api";
+
+/**
+ * Messages pushed by the server. Every frame is JSON: `{ type, data }`.
+ * - member_update: a partial RideMember (position delta, status change) keyed by member id
+ * - member_removed: a member left the ride
+ * - ride_status: the ride itself changed (started, paused, ended)
+ * - alert: a new alert was raised for the ride
+ * - heartbeat: keep-alive, sent periodically by the server
+ */
+export type RideChannelEvent =
+  | { type: "member_update"; data: Partial<RideMember> & { id: string } }
+  | { type: "member_removed"; data: { id: string } }
+  | { type: "ride_status"; data: Ride }
+  | { type: "alert"; data: Alert }
+  | { type: "heartbeat"; data?: { timestamp: string } };
+
+/**
+ * Connection state of a channel.
+ * - connecting: opening a transport (initially or after a drop)
+ * - open: a transport is connected and heartbeats are arriving
+ * - unavailable: neither WebSocket nor SSE could be opened; consumers should poll
+ * - closed: the channel was released
+ */
+export type RideChannelState = "connecting" | "open" | "unavailable" | "closed";
+
+type EventListener = (event: RideChannelEvent) => void;
+type StateListener = (state: RideChannelState) => void;
+
+// Server heartbeats arrive every ~10s; three missed beats means the connection is dead.
+const HEARTBEAT_TIMEOUT_MS = 30000;
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 30000;
+
+export class RideChannel {
+  readonly rideId: string;
+  private state: RideChannelState = "closed";
+  private socket: WebSocket | null = null;
+  private eventSource: EventSource | null = null;
+  private reconnectAttempts = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private heartbeatTimer: ReturnType<typeof setTimeout> | null = null;
+  private eventListeners = new Set<EventListener>();
+  private stateListeners = new Set<StateListener>();
+
+  constructor(rideId: string) {
+    this.rideId = rideId;
+  }
+
+  /**
+   * Current connection state.
+   */
+  getState(): RideChannelState {
+    return this.state;
+  }
+
+  /**
+   * Listen for server events. Returns an unsubscribe function.
+   */
+  subscribe(listener: EventListener): () => void {
+    this.eventListeners.add(listener);
+    return () => {
+      this.eventListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Listen for connection state changes. Returns an unsubscribe function.
+   */
+  onStateChange(listener: StateListener): () => void {
+    this.stateListeners.add(listener);
+    return () => {
+      this.stateListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Open the channel. Tries WebSocket first, then SSE.
+   */
+  connect() {
+    if (this.state !== "closed") return;
+    this.openWebSocket();
+  }
+
+  /**
+   * Close the channel and stop reconnecting.
+   */
+  close() {
+    this.clearTimers();
+    this.teardownTransports();
+    this.setState("closed");
+  }
+
+  private setState(state: RideChannelState) {
+    if (this.state === state) return;
+    this.state = state;
+    this.stateListeners.forEach((listener) => listener(state));
+  }
+
+  private openWebSocket() {
+    if (typeof WebSocket === "undefined") {
+      this.openEventSource();
+      return;
+    }
+
+    // Retries after both transports failed stay "unavailable" so consumers keep polling until one opens.
+    if (this.state !== "unavailable") {
+      this.setState("connecting");
+    }
+    let opened = false;
+
+    try {
+      this.socket = new WebSocket(
+        apiClient.buildRealtimeUrl(`/api/v1/rides/${this.rideId}/live`, "ws")
+      );
+    } catch (error) {
+      console.error("Ride channel WebSocket failed:", error);
+      this.openEventSource();
+      return;
+    }
+
+    this.socket.onopen = () => {
+      opened = true;
+      this.handleOpen();
+    };
+    this.socket.onmessage = (message) => this.handleMessage(message.data);
+    this.socket.onclose = () => {
+      this.socket = null;
+      if (this.state === "closed") return;
+      // A socket that never opened is likely blocked (proxy, firewall): try SSE instead.
+      if (opened) {
+        this.handleDrop();
+      } else {
+        this.openEventSource();
+      }
+    };
+  }
+
+  private openEventSource() {
+    if (typeof EventSource === "undefined") {
+      this.handleUnavailable();
+      return;
+    }
+
+    let opened = false;
+    this.eventSource = new EventSource(
+      apiClient.buildRealtimeUrl(`/api/v1/rides/${this.rideId}/events`, "http")
+    );
+
+    this.eventSource.onopen = () => {
+      opened = true;
+      this.handleOpen();
+    };
+    this.eventSource.onmessage = (message) => this.handleMessage(message.data);
+    this.eventSource.onerror = () => {
+      // EventSource retries on its own; close it so reconnects go through our backoff instead.
+      this.eventSource?.close();
+      this.eventSource = null;
+      if (this.state === "closed") return;
+      if (opened) {
+        this.handleDrop();
+      } else {
+        this.handleUnavailable();
+      }
+    };
+  }
+
+  private handleOpen() {
+    this.reconnectAttempts = 0;
+    this.setState("open");
+    this.resetHeartbeat();
+  }
+
+  private handleMessage(raw: string) {
+    this.resetHeartbeat();
+
+    let event: RideChannelEvent;
+    try {
+      event = JSON.parse(raw);
+    } catch (error) {
+      console.error("Ride channel received malformed message:", error);
+      return;
+    }
+
+    if (event.type === "heartbeat") return;
+    this.eventListeners.forEach((listener) => listener(event));
+  }
+
+  private handleDrop() {
+    this.setState("connecting");
+    this.scheduleReconnect();
+  }
+
+  private handleUnavailable() {
+    this.setState("unavailable");
+    this.scheduleReconnect();
+  }
+
+  private resetHeartbeat() {
+    if (this.heartbeatTimer) clearTimeout(this.heartbeatTimer);
+    this.heartbeatTimer = setTimeout(() => {
+      // The transport looks open but nothing is arriving; force a reconnect.
+      this.teardownTransports();
+      this.handleDrop();
+    }, HEARTBEAT_TIMEOUT_MS);
+  }
+
+  private scheduleReconnect() {
+    this.clearTimers();
+    const delay = Math.min(
+      RECONNECT_MAX_DELAY_MS,
+      RECONNECT_BASE_DELAY_MS * 2 ** this.reconnectAttempts
+    );
+    // Jitter keeps a whole group from reconnecting in lockstep after a server restart.
+    const jitter = Math.random() * delay * 0.2;
+    this.reconnectAttempts += 1;
+    this.reconnectTimer = setTimeout(() => this.openWebSocket(), delay + jitter);
+  }
+
+  private clearTimers() {
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    if (this.heartbeatTimer) clearTimeout(this.heartbeatTimer);
+    this.reconnectTimer = null;
+    this.heartbeatTimer = null;
+  }
+
+  private teardownTransports() {
+    if (this.socket) {
+      this.socket.onclose = null;
+      this.socket.close();
+      this.socket = null;
+    }
+    if (this.eventSource) {
+      this.eventSource.close();
+      this.eventSource = null;
+    }
+  }
+}
+
+// One channel per ride, shared between hooks and reference-counted.
+const channels = new Map<string, { channel: RideChannel; refs: number }>();
+
+/**
+ * Get the shared channel for a ride, connecting it on first use.
+ * Every call must be paired with releaseRideChannel.
+ */
+export function acquireRideChannel(rideId: string): RideChannel {
+  let entry = channels.get(rideId);
+  if (!entry) {
+    entry = { channel: new RideChannel(rideId), refs: 0 };
+    channels.set(rideId, entry);
+    entry.channel.connect();
+  }
+  entry.refs += 1;
+  return entry.channel;
+}
+
+/**
+ * Release a channel obtained from acquireRideChannel. The last release closes it.
+ */
+export function releaseRideChannel(channel: RideChannel) {
+  const entry = channels.get(channel.rideId);
+  if (!entry) return;
+  entry.refs -= 1;
+  if (entry.refs <= 0) {
+    entry.channel.close();
+    channels.delete(channel.rideId);
+  }
+}
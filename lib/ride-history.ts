@@ -0,0 +1,54 @@
+/**
+ * Ride History
+ *
+ * Filtering for the ride history list and small formatting helpers shared by the history and ride
+ * detail screens. A ride's date is when it was created.
+ */
+
+import type { Ride } from "./api";
+import type { RideStatus } from "./ride-lifecycle";
+
+/**
+ * History filters. "all" disables the group or status filter; date bounds are inclusive whole days.
+ */
+export interface RideHistoryFilters {
+  groupId: string | "all";
+  status: RideStatus | "all";
+  from?: Date;
+  to?: Date;
+}
+
+export const DEFAULT_RIDE_HISTORY_FILTERS: RideHistoryFilters = {
+  groupId: "all",
+  status: "all",
+};
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+/**
+ * Rides matching the filters, newest first.
+ */
+export function filterRides(rides: Ride[], filters: RideHistoryFilters): Ride[] {
+  const from = filters.from ? startOfDay(filters.from).getTime() : -Infinity;
+  // Include the whole of the last day
+  const to = filters.to ? startOfDay(filters.to).getTime() + 24 * 60 * 60 * 1000 : Infinity;
+
+  return rides
+    .filter((ride) => {
+      if (filters.groupId !== "all" && ride.groupId !== filters.groupId) return false;
+      if (filters.status !== "all" && ride.status !== filters.status) return false;
+      const createdAt = new Date(ride.createdAt).getTime();
+      return createdAt >= from && createdAt < to;
+    })
+    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+}
+
+/**
+ * Format an elapsed time in milliseconds as "1h 05m" or "12m".
+ */
+export function formatElapsed(ms: number): string {
+  const totalMinutes = Math.max(0, Math.round(ms / 60000));
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  return hours > 0 ? `${hours}h ${String(minutes).padStart(2, "0")}m` : `${minutes}m`;
+}
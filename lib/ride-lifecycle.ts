@@ -0,0 +1,162 @@
+/**
+ * Ride Lifecycle
+ *
+ * The states a ride moves through and the organizer actions that move it:
+ *   CREATED --start--> STARTED --pause--> PAUSED --resume--> STARTED
+ * CREATED, STARTED and PAUSED rides can be ended (ENDED). A ride that hasn't started can instead be
+ * cancelled from the calendar (CANCELLED); it stays listed so calendar subscribers see the
+ * cancellation. ENDED and CANCELLED are both final: no action leads out of them.
+ * The server is the authority on the current state; these rules keep the dashboard from offering,
+ * or sending, an illegal transition.
+ */
+
+import type { Alert, Ride, RideMemberStatus } from "./api";
+import { isJoinableRide } from "./ride-schedule";
+
+export type RideStatus = Ride["status"];
+
+export type RideAction = "start" | "pause" | "resume" | "end";
+
+/**
+ * A lifecycle action and what it takes to perform it.
+ * - confirm: question shown before the action is sent
+ * - announcement: alert broadcast to the ride's members once it succeeds
+ */
+export interface RideActionInfo {
+  from: RideStatus[];
+  to: RideStatus;
+  label: string;
+  confirm: string;
+  announcement: string;
+}
+
+export const RIDE_ACTIONS: Record<RideAction, RideActionInfo> = {
+  start: {
+    from: ["CREATED"],
+    to: "STARTED",
+    label: "Start Ride",
+    confirm: "Start the ride for everyone in the group?",
+    announcement: "The ride has started",
+  },
+  pause: {
+    from: ["STARTED"],
+    to: "PAUSED",
+    label: "Pause",
+    confirm: "Pause the ride? Members' location sharing drops to a low rate until it resumes.",
+    announcement: "The ride is paused",
+  },
+  resume: {
+    from: ["PAUSED"],
+    to: "STARTED",
+    label: "Resume",
+    confirm: "Resume the ride for everyone in the group?",
+    announcement: "The ride has resumed",
+  },
+  end: {
+    from: ["CREATED", "STARTED", "PAUSED"],
+    to: "ENDED",
+    label: "End Ride",
+    confirm: "End the ride for everyone? Location sharing stops and the ride can no longer be resumed.",
+    announcement: "The ride has ended",
+  },
+};
+
+export const RIDE_STATUS_LABELS: Record<RideStatus, string> = {
+  CREATED: "Not started",
+  STARTED: "In progress",
+  PAUSED: "Paused",
+  ENDED: "Ended",
+  CANCELLED: "Cancelled",
+};
+
+export const MEMBER_STATUS_LABELS: Record<RideMemberStatus, string> = {
+  waiting: "Waiting",
+  "on-route": "On Route",
+  arrived: "Arrived",
+  left: "Left",
+};
+
+/**
+ * Label for a member's ride status; statuses this client doesn't know yet read as "Unknown".
+ */
+export function getMemberStatusLabel(status: RideMemberStatus): string {
+  return MEMBER_STATUS_LABELS[status] ?? "Unknown";
+}
+
+/**
+ * Background color class of an alert's severity marker.
+ */
+export function getSeverityColor(severity: Alert["severity"]): string {
+  switch (severity) {
+    case "critical":
+      return "bg-red-600";
+    case "high":
+      return "bg-red-500";
+    case "medium":
+      return "bg-yellow-500";
+    default:
+      return "bg-blue-500";
+  }
+}
+
+/**
+ * Whether a ride has been started and not ended: it's running or paused.
+ */
+export function isUnderwayStatus(status: RideStatus): boolean {
+  return status === "STARTED" || status === "PAUSED";
+}
+
+/**
+ * Whether a ride is over for good: ended or cancelled.
+ */
+export function isFinalStatus(status: RideStatus): boolean {
+  return status === "ENDED" || status === "CANCELLED";
+}
+
+export class RideTransitionError extends Error {
+  constructor(
+    public status: RideStatus,
+    public action: RideAction
+  ) {
+    super(`Cannot ${action} a ride that is ${RIDE_STATUS_LABELS[status].toLowerCase()}`);
+    this.name = "RideTransitionError";
+  }
+}
+
+export function canPerformAction(status: RideStatus, action: RideAction): boolean {
+  return RIDE_ACTIONS[action].from.includes(status);
+}
+
+/**
+ * Actions available from a status, in the order they should be offered.
+ */
+export function getAvailableActions(status: RideStatus): RideAction[] {
+  return (Object.keys(RIDE_ACTIONS) as RideAction[]).filter((action) => canPerformAction(status, action));
+}
+
+/**
+ * The status an action leads to. Throws RideTransitionError if the action isn't allowed from `status`.
+ */
+export function getNextStatus(status: RideStatus, action: RideAction): RideStatus {
+  if (!canPerformAction(status, action)) {
+    throw new RideTransitionError(status, action);
+  }
+  return RIDE_ACTIONS[action].to;
+}
+
+/**
+ * The group's ride members should join, or null: one that hasn't ended and, if scheduled, is close to
+ * departure. A ride that's underway wins over one waiting to start; otherwise the most recently
+ * created wins, so everyone opening the group lands in the same ride.
+ */
+export function findActiveRide(rides: Ride[]): Ride | null {
+  const now = Date.now();
+  return rides
+    .filter((ride) => isJoinableRide(ride, now))
+    .reduce<Ride | null>((best, ride) => {
+      if (!best) return ride;
+      const underway = isUnderwayStatus(ride.status);
+      if (underway !== isUnderwayStatus(best.status)) return underway ? ride : best;
+      return new Date(ride.createdAt) > new Date(best.createdAt) ? ride : best;
+    }, null);
+}
@@ -0,0 +1,187 @@
+/**
+ * Recurring Rides
+ *
+ * Expands a ride template's recurrence rule into departures and works out which scheduled rides a
+ * series needs. Occurrences are generated SERIES_HORIZON_MS ahead, so a series only ever has its next
+ * few rides scheduled. Each generated ride records the series date it fills (`occurrenceDate`), so a
+ * single ride can be moved or edited and still be recognised as that occurrence.
+ * All dates are local time: a 18:30 Tuesday ride stays at 18:30 across daylight saving changes.
+ */
+
+import type { RecurrenceFrequency, RecurrenceRule, Ride, RideRequest, RideTemplate } from "./api";
+
+export const RECURRENCE_FREQUENCIES: Record<RecurrenceFrequency, { label: string }> = {
+  weekly: { label: "Every week" },
+  biweekly: { label: "Every 2 weeks" },
+  monthly: { label: "Every month" },
+};
+
+export const SERIES_HORIZON_MS = 35 * 24 * 60 * 60 * 1000;
+
+const WEEKDAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+const ORDINALS = ["1st", "2nd", "3rd", "4th"];
+
+/**
+ * Local calendar date of a departure as YYYY-MM-DD.
+ */
+export function toOccurrenceDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Which occurrence of its weekday a date is within its month: 1-4, or "last" for the final week.
+ */
+function getWeekOfMonth(date: Date): number | "last" {
+  const week = Math.ceil(date.getDate() / 7);
+  return week > 4 ? "last" : week;
+}
+
+/**
+ * The date of the nth (or last) given weekday in a month.
+ */
+function getNthWeekday(year: number, month: number, weekday: number, week: number | "last"): number {
+  if (week === "last") {
+    const lastDay = new Date(year, month + 1, 0);
+    return lastDay.getDate() - ((lastDay.getDay() - weekday + 7) % 7);
+  }
+  const firstWeekday = new Date(year, month, 1).getDay();
+  return 1 + ((weekday - firstWeekday + 7) % 7) + (week - 1) * 7;
+}
+
+/**
+ * Departures of a recurrence rule from `from` up to and including `until`.
+ */
+export function getOccurrences(rule: RecurrenceRule, from: Date, until: Date): Date[] {
+  const first = new Date(rule.firstDeparture);
+  if (Number.isNaN(first.getTime())) return [];
+
+  const occurrenceAt = (index: number): Date => {
+    const [hours, minutes] = [first.getHours(), first.getMinutes()];
+    if (rule.frequency === "monthly") {
+      const year = first.getFullYear();
+      const month = first.getMonth() + index;
+      const day = getNthWeekday(year, month, first.getDay(), getWeekOfMonth(first));
+      return new Date(year, month, day, hours, minutes);
+    }
+    const days = (rule.frequency === "weekly" ? 7 : 14) * index;
+    return new Date(first.getFullYear(), first.getMonth(), first.getDate() + days, hours, minutes);
+  };
+
+  const occurrences: Date[] = [];
+  for (let index = 0; ; index++) {
+    const occurrence = occurrenceAt(index);
+    if (occurrence > until) break;
+    if (occurrence >= from) occurrences.push(occurrence);
+  }
+  return occurrences;
+}
+
+/**
+ * The series' next departure after `now`, or null if none falls within the horizon.
+ */
+export function getNextOccurrence(rule: RecurrenceRule, now = new Date()): Date | null {
+  return getOccurrences(rule, now, new Date(now.getTime() + SERIES_HORIZON_MS))[0] ?? null;
+}
+
+/**
+ * Plain-language recurrence, e.g. "Every other Tuesday at 18:30".
+ */
+export function describeRecurrence(rule: RecurrenceRule): string {
+  const first = new Date(rule.firstDeparture);
+  if (Number.isNaN(first.getTime())) return RECURRENCE_FREQUENCIES[rule.frequency].label;
+
+  const weekday = WEEKDAYS[first.getDay()];
+  const time = first.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+  switch (rule.frequency) {
+    case "weekly":
+      return `Every ${weekday} at ${time}`;
+    case "biweekly":
+      return `Every other ${weekday} at ${time}`;
+    case "monthly": {
+      const week = getWeekOfMonth(first);
+      return `Monthly on the ${week === "last" ? "last" : ORDINALS[week - 1]} ${weekday} at ${time}`;
+    }
+  }
+}
+
+/**
+ * The ride to create for one occurrence of a template.
+ */
+export function buildOccurrenceRequest(template: RideTemplate, departure: Date): RideRequest {
+  return {
+    groupId: template.groupId,
+    name: template.name,
+    description: template.description,
+    startLocation: template.startLocation,
+    endLocation: template.endLocation,
+    route: template.route,
+    geofences: template.geofences,
+    offRouteToleranceMeters: template.offRouteToleranceMeters,
+    scheduledFor: departure.toISOString(),
+    templateId: template.id,
+    occurrenceDate: toOccurrenceDate(departure),
+  };
+}
+
+/**
+ * Changes that bring a series' upcoming rides in line with its template:
+ * - create: occurrences within the horizon that have no ride yet and weren't skipped, with their date
+ * - update: upcoming rides to overwrite with the template (only when `applyTemplate` is set, after the
+ *   whole series was edited), paired with their new request
+ * - remove: upcoming rides whose date is no longer part of the series, to cancel (only when
+ *   `applyTemplate` is set)
+ * Rides that have started or already departed are never touched.
+ */
+export function planSeriesSync(
+  template: RideTemplate,
+  rides: Ride[],
+  { now = new Date(), applyTemplate = false }: { now?: Date; applyTemplate?: boolean } = {}
+): {
+  create: Array<{ occurrenceDate: string; request: RideRequest }>;
+  update: Array<{ ride: Ride; request: RideRequest }>;
+  remove: Ride[];
+} {
+  const occurrences = getOccurrences(template.recurrence, now, new Date(now.getTime() + SERIES_HORIZON_MS));
+  const upcoming = rides.filter(
+    (ride) =>
+      ride.templateId === template.id &&
+      ride.status === "CREATED" &&
+      !!ride.scheduledFor &&
+      new Date(ride.scheduledFor) > now
+  );
+  // Every ride of the series that isn't cancelled counts when deciding what's missing, including ones
+  // already underway. Cancelled rides don't: the sync cancels rides itself when the series moves, and
+  // a series moved back needs them again. Only dates an admin skipped stay empty.
+  const existingDates = new Set([
+    ...rides
+      .filter((ride) => ride.templateId === template.id && ride.status !== "CANCELLED")
+      .map((ride) => ride.occurrenceDate),
+    ...(template.skippedDates ?? []),
+  ]);
+
+  const create = occurrences
+    .filter((occurrence) => !existingDates.has(toOccurrenceDate(occurrence)))
+    .map((occurrence) => ({
+      occurrenceDate: toOccurrenceDate(occurrence),
+      request: buildOccurrenceRequest(template, occurrence),
+    }));
+
+  if (!applyTemplate) {
+    return { create, update: [], remove: [] };
+  }
+
+  const byDate = new Map(occurrences.map((occurrence) => [toOccurrenceDate(occurrence), occurrence]));
+  const update: Array<{ ride: Ride; request: RideRequest }> = [];
+  const remove: Ride[] = [];
+  upcoming.forEach((ride) => {
+    const occurrence = ride.occurrenceDate ? byDate.get(ride.occurrenceDate) : undefined;
+    if (occurrence) {
+      update.push({ ride, request: buildOccurrenceRequest(template, occurrence) });
+    } else {
+      remove.push(ride);
+    }
+  });
+  return { create, update, remove };
+}
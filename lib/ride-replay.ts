@@ -0,0 +1,125 @@
+/**
+ * Ride Replay
+ *
+ * Turns a ride's recorded location history into per-member tracks that can be sampled at any point
+ * on the ride's timeline. Positions between two recorded fixes are linearly interpolated.
+ */
+
+import type { LocationUpdate, User } from "./api";
+import type { LatLng } from "./geo";
+
+/**
+ * A recorded fix on a member's track, with its time as epoch milliseconds.
+ */
+export interface ReplaySample extends LatLng {
+  time: number;
+  accuracy?: number;
+  altitude?: number;
+}
+
+/**
+ * One member's recorded path, ordered by time.
+ */
+export interface ReplayTrack {
+  userId: string;
+  user: User;
+  samples: ReplaySample[];
+}
+
+/**
+ * Group location updates into one time-ordered track per user.
+ */
+export function buildReplayTracks(updates: LocationUpdate[]): ReplayTrack[] {
+  const tracks = new Map<string, ReplayTrack>();
+
+  updates.forEach((update) => {
+    const time = new Date(update.timestamp).getTime();
+    if (Number.isNaN(time)) return;
+
+    let track = tracks.get(update.userId);
+    if (!track) {
+      track = { userId: update.userId, user: update.user, samples: [] };
+      tracks.set(update.userId, track);
+    }
+    track.samples.push({
+      lat: update.latitude,
+      lng: update.longitude,
+      accuracy: update.accuracy,
+      altitude: update.altitude,
+      time,
+    });
+  });
+
+  tracks.forEach((track) => track.samples.sort((a, b) => a.time - b.time));
+  return Array.from(tracks.values());
+}
+
+/**
+ * Earliest and latest sample time across all tracks, or null when there are no samples.
+ */
+export function getReplayBounds(tracks: ReplayTrack[]): { start: number; end: number } | null {
+  let start = Infinity;
+  let end = -Infinity;
+  tracks.forEach((track) => {
+    if (track.samples.length === 0) return;
+    start = Math.min(start, track.samples[0].time);
+    end = Math.max(end, track.samples[track.samples.length - 1].time);
+  });
+  return start <= end ? { start, end } : null;
+}
+
+/**
+ * Index of the last sample at or before `time`, or -1 if the track starts later.
+ */
+function lastSampleIndexAt(samples: ReplaySample[], time: number): number {
+  let low = 0;
+  let high = samples.length - 1;
+  let found = -1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (samples[mid].time <= time) {
+      found = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return found;
+}
+
+/**
+ * Where a member was at `time`. Null before their first fix; after their last fix they stay put.
+ */
+export function getPositionAt(track: ReplayTrack, time: number): ReplaySample | null {
+  const index = lastSampleIndexAt(track.samples, time);
+  if (index < 0) return null;
+
+  const previous = track.samples[index];
+  const next = track.samples[index + 1];
+  if (!next || next.time === previous.time) return previous;
+
+  const fraction = (time - previous.time) / (next.time - previous.time);
+  return {
+    lat: previous.lat + (next.lat - previous.lat) * fraction,
+    lng: previous.lng + (next.lng - previous.lng) * fraction,
+    accuracy: previous.accuracy,
+    time,
+  };
+}
+
+/**
+ * The part of a member's path covered up to `time`, ending at their interpolated position.
+ */
+export function getPathUntil(track: ReplayTrack, time: number): LatLng[] {
+  const index = lastSampleIndexAt(track.samples, time);
+  if (index < 0) return [];
+
+  const path: LatLng[] = track.samples
+    .slice(0, index + 1)
+    .map((sample) => ({ lat: sample.lat, lng: sample.lng }));
+  const current = getPositionAt(track, time);
+  if (current && current.time !== track.samples[index].time) {
+    path.push({ lat: current.lat, lng: current.lng });
+  }
+  return path;
+}
@@ -0,0 +1,95 @@
+/**
+ * Scheduled Rides
+ *
+ * A scheduled ride is created ahead of time with a planned departure (`scheduledFor`) and stays
+ * CREATED until an admin starts it. Members RSVP in the meantime and get reminders before departure.
+ * Members can join it from JOIN_WINDOW_MS before departure until JOIN_GRACE_MS after; outside that
+ * window opening the group doesn't land members in it, so a ride nobody started doesn't linger.
+ */
+
+import type { Ride, RideRsvp, RsvpResponse } from "./api";
+
+export const RSVP_OPTIONS: Record<RsvpResponse, { label: string }> = {
+  going: { label: "Going" },
+  maybe: { label: "Maybe" },
+  not_going: { label: "Not going" },
+};
+
+export const JOIN_WINDOW_MS = 30 * 60 * 1000;
+// A scheduled ride still waiting to be started stops being joinable this long after departure
+export const JOIN_GRACE_MS = 2 * 60 * 60 * 1000;
+
+// How long before departure reminders go out, earliest first
+export const REMINDER_OFFSETS_MS = [24 * 60 * 60 * 1000, 60 * 60 * 1000, 15 * 60 * 1000];
+
+/**
+ * Planned departure as epoch milliseconds, or null for rides that weren't scheduled.
+ */
+export function getDepartureTime(ride: Ride): number | null {
+  if (!ride.scheduledFor) return null;
+  const time = new Date(ride.scheduledFor).getTime();
+  return Number.isNaN(time) ? null : time;
+}
+
+/**
+ * Whether a ride is scheduled and hasn't been started yet.
+ */
+export function isScheduledRide(ride: Ride): boolean {
+  return ride.status === "CREATED" && getDepartureTime(ride) !== null;
+}
+
+/**
+ * Whether members can join a ride now: it hasn't ended or been cancelled and, if it's scheduled and
+ * not started yet, departure is within the join window.
+ */
+export function isJoinableRide(ride: Ride, now = Date.now()): boolean {
+  if (ride.status === "ENDED" || ride.status === "CANCELLED") return false;
+  const departure = isScheduledRide(ride) ? getDepartureTime(ride) : null;
+  return departure === null || (departure - JOIN_WINDOW_MS <= now && now <= departure + JOIN_GRACE_MS);
+}
+
+/**
+ * Scheduled rides, soonest departure first.
+ */
+export function getScheduledRides(rides: Ride[]): Ride[] {
+  return rides
+    .filter(isScheduledRide)
+    .sort((a, b) => (getDepartureTime(a) ?? 0) - (getDepartureTime(b) ?? 0));
+}
+
+/**
+ * RSVP counts per response.
+ */
+export function countRsvps(rsvps: RideRsvp[]): Record<RsvpResponse, number> {
+  const counts: Record<RsvpResponse, number> = { going: 0, maybe: 0, not_going: 0 };
+  rsvps.forEach((rsvp) => {
+    counts[rsvp.response] += 1;
+  });
+  return counts;
+}
+
+/**
+ * Human-readable time until departure for a reminder offset, e.g. "in 1 hour".
+ */
+export function describeReminderOffset(offsetMs: number): string {
+  const minutes = Math.round(offsetMs / 60000);
+  if (minutes >= 24 * 60 && minutes % (24 * 60) === 0) {
+    const days = minutes / (24 * 60);
+    return days === 1 ? "tomorrow" : `in ${days} days`;
+  }
+  if (minutes >= 60 && minutes % 60 === 0) {
+    const hours = minutes / 60;
+    return `in ${hours} hour${hours === 1 ? "" : "s"}`;
+  }
+  return `in ${minutes} minutes`;
+}
+
+/**
+ * Reminder text for a ride departing after `offsetMs`.
+ */
+export function describeReminder(ride: Ride, offsetMs: number): string {
+  const departure = getDepartureTime(ride);
+  const time = departure ? new Date(departure).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" }) : "";
+  const meetingPoint = ride.startLocation ? ` from ${ride.startLocation}` : "";
+  return `${ride.name} departs ${describeReminderOffset(offsetMs)} at ${time}${meetingPoint}`;
+}
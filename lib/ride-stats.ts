@@ -0,0 +1,216 @@
+/**
+ * Ride Statistics
+ *
+ * Post-ride figures computed from the recorded member tracks:
+ * - per member: distance, moving vs stopped time, average (moving) and max speed, and elevation
+ *   gain/loss when fixes carried an altitude
+ * - over time: each member's speed, and the group's spread between leader and sweeper
+ * Spread follows progress along the planned route when the ride has one; otherwise it's the largest
+ * straight-line distance between any two members.
+ */
+
+import type { RouteWaypoint, User } from "./api";
+import { distanceMeters, type LatLng } from "./geo";
+import { getReplayBounds, getPositionAt, type ReplayTrack } from "./ride-replay";
+import { getRouteProgress } from "./route";
+
+export interface MemberRideStats {
+  userId: string;
+  user: User;
+  // Meters
+  distance: number;
+  // Milliseconds
+  movingTime: number;
+  stoppedTime: number;
+  // m/s; the average only counts time spent moving
+  averageSpeed: number;
+  maxSpeed: number;
+  // Meters climbed and descended, or null without altitude data
+  elevationGain: number | null;
+  elevationLoss: number | null;
+}
+
+export interface RideStats {
+  // Milliseconds from the first to the last recorded fix
+  duration: number;
+  // Furthest distance covered by any member, in meters
+  distance: number;
+  members: MemberRideStats[];
+}
+
+/**
+ * One row of the speed chart: `time` (epoch ms) plus each member's speed in km/h, keyed by user id.
+ * Members who weren't recording at that time have no key.
+ */
+export interface SpeedChartPoint {
+  time: number;
+  [userId: string]: number;
+}
+
+export interface SpreadChartPoint {
+  time: number;
+  // Meters between the leader and the sweeper
+  spread: number;
+}
+
+// Below this speed (m/s) a member counts as stopped
+const MOVING_SPEED = 1;
+// Segments shorter than this (ms) are too noisy to set a max speed
+const MIN_MAX_SPEED_INTERVAL = 5000;
+// Altitude changes smaller than this (meters) are treated as GPS noise
+const ELEVATION_THRESHOLD = 3;
+// Number of points along the timeline for the charts
+const CHART_POINTS = 60;
+
+export const toKmh = (metersPerSecond: number) => metersPerSecond * 3.6;
+
+/**
+ * Total climb and descent along a track, ignoring changes smaller than ELEVATION_THRESHOLD.
+ */
+function getElevationChange(track: ReplayTrack): { gain: number; loss: number } | null {
+  const altitudes = track.samples.flatMap((sample) => (typeof sample.altitude === "number" ? [sample.altitude] : []));
+  if (altitudes.length < 2) return null;
+
+  let gain = 0;
+  let loss = 0;
+  let reference = altitudes[0];
+  altitudes.slice(1).forEach((altitude) => {
+    const change = altitude - reference;
+    if (Math.abs(change) < ELEVATION_THRESHOLD) return;
+    if (change > 0) gain += change;
+    else loss -= change;
+    reference = altitude;
+  });
+  return { gain, loss };
+}
+
+export function getMemberRideStats(track: ReplayTrack): MemberRideStats {
+  let distance = 0;
+  let movingTime = 0;
+  let stoppedTime = 0;
+  let maxSpeed = 0;
+
+  for (let i = 1; i < track.samples.length; i++) {
+    const previous = track.samples[i - 1];
+    const sample = track.samples[i];
+    const elapsed = sample.time - previous.time;
+    if (elapsed <= 0) continue;
+
+    const segment = distanceMeters(previous, sample);
+    const speed = segment / (elapsed / 1000);
+    distance += segment;
+    if (speed >= MOVING_SPEED) {
+      movingTime += elapsed;
+      if (elapsed >= MIN_MAX_SPEED_INTERVAL) maxSpeed = Math.max(maxSpeed, speed);
+    } else {
+      stoppedTime += elapsed;
+    }
+  }
+
+  const elevation = getElevationChange(track);
+  return {
+    userId: track.userId,
+    user: track.user,
+    distance,
+    movingTime,
+    stoppedTime,
+    averageSpeed: movingTime > 0 ? distance / (movingTime / 1000) : 0,
+    maxSpeed,
+    elevationGain: elevation?.gain ?? null,
+    elevationLoss: elevation?.loss ?? null,
+  };
+}
+
+/**
+ * Ride-wide and per-member statistics, members ordered by distance covered.
+ */
+export function getRideStats(tracks: ReplayTrack[]): RideStats {
+  const bounds = getReplayBounds(tracks);
+  const members = tracks.map(getMemberRideStats).sort((a, b) => b.distance - a.distance);
+  return {
+    duration: bounds ? bounds.end - bounds.start : 0,
+    distance: members[0]?.distance ?? 0,
+    members,
+  };
+}
+
+/**
+ * Evenly spaced times across the ride for the charts.
+ */
+function getChartTimes(tracks: ReplayTrack[]): number[] {
+  const bounds = getReplayBounds(tracks);
+  if (!bounds || bounds.end <= bounds.start) return [];
+  const step = (bounds.end - bounds.start) / CHART_POINTS;
+  return Array.from({ length: CHART_POINTS + 1 }, (_, i) => bounds.start + i * step);
+}
+
+/**
+ * Position of a member at `time`, or null outside the span of their track.
+ */
+function getRecordedPosition(track: ReplayTrack, time: number): LatLng | null {
+  const first = track.samples[0];
+  const last = track.samples[track.samples.length - 1];
+  if (!first || time < first.time || time > last.time) return null;
+  return getPositionAt(track, time);
+}
+
+/**
+ * Each member's average speed over each chart interval.
+ */
+export function getSpeedSeries(tracks: ReplayTrack[]): SpeedChartPoint[] {
+  const times = getChartTimes(tracks);
+  return times.slice(1).map((time, i) => {
+    const previousTime = times[i];
+    const point: SpeedChartPoint = { time };
+    tracks.forEach((track) => {
+      const from = getRecordedPosition(track, previousTime);
+      const to = getRecordedPosition(track, time);
+      if (!from || !to) return;
+      const seconds = (time - previousTime) / 1000;
+      point[track.userId] = Math.round(toKmh(distanceMeters(from, to) / seconds) * 10) / 10;
+    });
+    return point;
+  });
+}
+
+/**
+ * Largest straight-line distance between any two positions.
+ */
+function getStraightLineSpread(positions: LatLng[]): number {
+  let spread = 0;
+  positions.forEach((a, i) => {
+    positions.slice(i + 1).forEach((b) => {
+      spread = Math.max(spread, distanceMeters(a, b));
+    });
+  });
+  return spread;
+}
+
+/**
+ * Distance between the group's leader and sweeper over the ride. Times with fewer than two members
+ * recording are left out. Members who can't be placed on the route don't count towards the route
+ * spread; when fewer than two can, the straight-line spread is used instead.
+ */
+export function getSpreadSeries(tracks: ReplayTrack[], route?: RouteWaypoint[]): SpreadChartPoint[] {
+  const hasRoute = !!route && route.length > 1;
+
+  return getChartTimes(tracks).flatMap((time) => {
+    const positions = tracks.flatMap((track) => {
+      const position = getRecordedPosition(track, time);
+      return position ? [position] : [];
+    });
+    if (positions.length < 2) return [];
+
+    const remaining = hasRoute
+      ? positions.flatMap((position) => {
+          const progress = getRouteProgress(position, route);
+          return progress ? [progress.distanceRemaining] : [];
+        })
+      : [];
+    const spread =
+      remaining.length >= 2
+        ? Math.max(...remaining) - Math.min(...remaining)
+        : getStraightLineSpread(positions);
+    return [{ time, spread: Math.round(spread) }];
+  });
+}
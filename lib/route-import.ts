@@ -0,0 +1,259 @@
+/**
+ * Route Import
+ *
+ * Parses routes drawn in other tools (GPX 1.0/1.1 or GeoJSON) into a ride's planned route.
+ * - Named waypoints (GPX <rtept>/<wpt>, GeoJSON Points) become route waypoints in file order.
+ * - When a file only has a track (GPX <trkpt>, GeoJSON LineString), the track is simplified into
+ *   waypoints so long recordings stay a manageable plan.
+ * The full track geometry is also returned for previewing.
+ */
+
+import { z } from "zod";
+import type { RouteWaypoint } from "./api";
+import { distanceToSegmentMeters, type LatLng } from "./geo";
+
+export interface ImportedRoute {
+  name?: string;
+  waypoints: RouteWaypoint[];
+  // Detailed track geometry from the file, if any
+  track: LatLng[];
+}
+
+/**
+ * Thrown when a file can't be turned into a route. The message is safe to show to the user.
+ */
+export class RouteImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RouteImportError";
+  }
+}
+
+export const ROUTE_FILE_EXTENSIONS = [".gpx", ".geojson", ".json"];
+
+const MAX_FILE_BYTES = 5 * 1024 * 1024;
+const MAX_WAYPOINTS = 50;
+// Track points further than this from the simplified line are kept as waypoints
+const SIMPLIFY_TOLERANCE_M = 50;
+
+function isValidCoordinate(lat: number, lng: number): boolean {
+  return Number.isFinite(lat) && Number.isFinite(lng) && Math.abs(lat) <= 90 && Math.abs(lng) <= 180;
+}
+
+function toWaypoint(point: LatLng, name: string): RouteWaypoint {
+  return { name, latitude: point.lat, longitude: point.lng };
+}
+
+/**
+ * Douglas-Peucker simplification of a track.
+ */
+function simplifyTrack(track: LatLng[], tolerance: number): LatLng[] {
+  if (track.length <= 2) return track;
+
+  const keep = new Array<boolean>(track.length).fill(false);
+  keep[0] = keep[track.length - 1] = true;
+  const stack: Array<[number, number]> = [[0, track.length - 1]];
+
+  while (stack.length > 0) {
+    const [start, end] = stack.pop()!;
+    let maxDistance = 0;
+    let maxIndex = -1;
+    for (let i = start + 1; i < end; i++) {
+      const distance = distanceToSegmentMeters(track[i], track[start], track[end]);
+      if (distance > maxDistance) {
+        maxDistance = distance;
+        maxIndex = i;
+      }
+    }
+    if (maxIndex >= 0 && maxDistance > tolerance) {
+      keep[maxIndex] = true;
+      stack.push([start, maxIndex], [maxIndex, end]);
+    }
+  }
+
+  return track.filter((_, i) => keep[i]);
+}
+
+/**
+ * Turn a track into at most MAX_WAYPOINTS waypoints, widening the tolerance until it fits.
+ */
+function waypointsFromTrack(track: LatLng[]): RouteWaypoint[] {
+  let tolerance = SIMPLIFY_TOLERANCE_M;
+  let simplified = simplifyTrack(track, tolerance);
+  while (simplified.length > MAX_WAYPOINTS) {
+    tolerance *= 2;
+    simplified = simplifyTrack(track, tolerance);
+  }
+  return simplified.map((point, index) =>
+    toWaypoint(point, index === 0 ? "Start" : index === simplified.length - 1 ? "Finish" : `Waypoint ${index + 1}`)
+  );
+}
+
+function parseGpx(text: string): ImportedRoute {
+  const doc = new DOMParser().parseFromString(text, "application/xml");
+  if (doc.getElementsByTagName("parsererror").length > 0 || doc.documentElement.localName !== "gpx") {
+    throw new RouteImportError("This doesn't look like a valid GPX file");
+  }
+
+  const readPoints = (tagName: string) =>
+    Array.from(doc.getElementsByTagNameNS("*", tagName)).map((element) => ({
+      lat: parseFloat(element.getAttribute("lat") ?? ""),
+      lng: parseFloat(element.getAttribute("lon") ?? ""),
+      name: Array.from(element.children).find((child) => child.localName === "name")?.textContent?.trim() || undefined,
+    }));
+
+  // A planned <rte> is the closest match to a ride route; loose <wpt>s come next
+  const routePoints = readPoints("rtept");
+  const namedPoints = routePoints.length > 0 ? routePoints : readPoints("wpt");
+  const trackPoints = readPoints("trkpt");
+
+  const invalid = [...namedPoints, ...trackPoints].find((point) => !isValidCoordinate(point.lat, point.lng));
+  if (invalid) {
+    throw new RouteImportError("The GPX file contains points with invalid coordinates");
+  }
+
+  const metadataName = Array.from(doc.getElementsByTagNameNS("*", "name")).find(
+    (element) => element.parentElement?.localName === "metadata" || element.parentElement?.localName === "rte"
+  );
+
+  return {
+    name: metadataName?.textContent?.trim() || undefined,
+    waypoints: namedPoints.map((point, index) => toWaypoint(point, point.name ?? `Waypoint ${index + 1}`)),
+    track: trackPoints.map(({ lat, lng }) => ({ lat, lng })),
+  };
+}
+
+// GeoJSON is checked in two steps: the feature structure first, then each geometry's coordinates,
+// so geometry types a route doesn't use are skipped rather than rejected
+const geoJsonPropertiesSchema = z.record(z.unknown()).nullish();
+const geoJsonGeometrySchema = z.object({ type: z.string(), coordinates: z.unknown() });
+const geoJsonFeatureSchema = z.object({
+  type: z.literal("Feature"),
+  geometry: geoJsonGeometrySchema.nullish(),
+  properties: geoJsonPropertiesSchema,
+});
+const geoJsonCollectionSchema = z.object({
+  type: z.literal("FeatureCollection"),
+  features: z.array(geoJsonFeatureSchema),
+  properties: geoJsonPropertiesSchema,
+});
+const positionSchema = z.tuple([z.number(), z.number()]).rest(z.number());
+const lineSchema = z.array(positionSchema);
+
+function parseGeoJson(text: string): ImportedRoute {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new RouteImportError("This doesn't look like a valid GeoJSON file");
+  }
+
+  const readGeoJson = <T extends z.ZodTypeAny>(schema: T, value: unknown, message: string): z.infer<T> => {
+    const result = schema.safeParse(value);
+    if (!result.success) {
+      throw new RouteImportError(message);
+    }
+    return result.data;
+  };
+  const readCoordinates = <T extends z.ZodTypeAny>(schema: T, coordinates: unknown): z.infer<T> =>
+    readGeoJson(schema, coordinates, "The GeoJSON file contains points with invalid coordinates");
+
+  // The top-level type decides what the file holds: a collection, a single feature or a bare geometry
+  const invalidFile = "This doesn't look like a valid GeoJSON file";
+  const { type } = readGeoJson(z.object({ type: z.string() }), json, invalidFile);
+  let features: z.infer<typeof geoJsonFeatureSchema>[];
+  let properties: z.infer<typeof geoJsonPropertiesSchema>;
+  if (type === "FeatureCollection") {
+    const collection = readGeoJson(geoJsonCollectionSchema, json, invalidFile);
+    features = collection.features;
+    properties = collection.properties;
+  } else if (type === "Feature") {
+    const feature = readGeoJson(geoJsonFeatureSchema, json, invalidFile);
+    features = [feature];
+    properties = feature.properties;
+  } else {
+    features = [{ type: "Feature", geometry: readGeoJson(geoJsonGeometrySchema, json, invalidFile), properties: null }];
+    properties = null;
+  }
+  if (features.length === 0) {
+    throw new RouteImportError("The GeoJSON file has no features");
+  }
+
+  const toLatLng = ([lng, lat]: z.infer<typeof positionSchema>): LatLng => {
+    if (!isValidCoordinate(lat, lng)) {
+      throw new RouteImportError("The GeoJSON file contains points with invalid coordinates");
+    }
+    return { lat, lng };
+  };
+  // Appends one at a time: spreading a long line into push() overflows the call stack
+  const appendLine = (line: z.infer<typeof lineSchema>) => {
+    for (const position of line) {
+      track.push(toLatLng(position));
+    }
+  };
+
+  const waypoints: RouteWaypoint[] = [];
+  const track: LatLng[] = [];
+
+  features.forEach((feature) => {
+    const { geometry } = feature;
+    const name = typeof feature.properties?.name === "string" ? feature.properties.name.trim() : "";
+    const stopMinutes = feature.properties?.stopMinutes;
+    switch (geometry?.type) {
+      case "Point": {
+        const waypoint = toWaypoint(
+          toLatLng(readCoordinates(positionSchema, geometry.coordinates)),
+          name || `Waypoint ${waypoints.length + 1}`
+        );
+        if (typeof stopMinutes === "number" && stopMinutes > 0) {
+          waypoint.stopMinutes = stopMinutes;
+        }
+        waypoints.push(waypoint);
+        break;
+      }
+      case "LineString":
+        // Files exported from RideSync carry member tracks too; only the route line is the plan
+        if (feature.properties?.kind === "track") break;
+        appendLine(readCoordinates(lineSchema, geometry.coordinates));
+        break;
+      case "MultiLineString":
+        readCoordinates(z.array(lineSchema), geometry.coordinates).forEach(appendLine);
+        break;
+    }
+  });
+
+  return {
+    name: typeof properties?.name === "string" ? properties.name : undefined,
+    waypoints,
+    track,
+  };
+}
+
+/**
+ * Parse a GPX or GeoJSON file into a planned route.
+ * Throws RouteImportError when the file is unsupported, malformed, or has fewer than two points.
+ */
+export async function importRouteFile(file: File): Promise<ImportedRoute> {
+  const extension = file.name.slice(file.name.lastIndexOf(".")).toLowerCase();
+  if (!ROUTE_FILE_EXTENSIONS.includes(extension)) {
+    throw new RouteImportError("Choose a .gpx or .geojson file");
+  }
+  if (file.size > MAX_FILE_BYTES) {
+    throw new RouteImportError("Route files must be smaller than 5 MB");
+  }
+
+  const text = await file.text();
+  const imported = extension === ".gpx" ? parseGpx(text) : parseGeoJson(text);
+
+  if (imported.waypoints.length < 2) {
+    imported.waypoints = waypointsFromTrack(imported.track);
+  }
+  if (imported.waypoints.length < 2) {
+    throw new RouteImportError("The file needs at least two points to form a route");
+  }
+  if (imported.waypoints.length > MAX_WAYPOINTS) {
+    throw new RouteImportError(`Routes can have at most ${MAX_WAYPOINTS} waypoints`);
+  }
+
+  return imported;
+}
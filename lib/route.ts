@@ -0,0 +1,132 @@
+/**
+ * Planned Route Helpers
+ *
+ * Geometry and display helpers for a ride's planned route (its ordered waypoints).
+ */
+
+import type { RouteWaypoint } from "./api";
+import { distanceMeters, distanceToSegmentMeters, projectOntoSegment, type LatLng } from "./geo";
+
+/**
+ * The route as a line through its waypoints, in riding order.
+ */
+export function getRoutePath(route: RouteWaypoint[]): LatLng[] {
+  return route.map((waypoint) => ({ lat: waypoint.latitude, lng: waypoint.longitude }));
+}
+
+/**
+ * Straight-line length of the route in meters.
+ */
+export function getRouteLength(route: RouteWaypoint[]): number {
+  const path = getRoutePath(route);
+  let total = 0;
+  for (let i = 1; i < path.length; i++) {
+    total += distanceMeters(path[i - 1], path[i]);
+  }
+  return total;
+}
+
+// Google Maps directions links accept at most this many stops between origin and destination
+const MAX_LINK_STOPS = 8;
+
+/**
+ * Link that opens the route in Google Maps directions. Long routes are thinned to evenly spaced
+ * stops so the link stays within what Maps accepts. Returns null when the ride has no planned route.
+ */
+export function getRouteMapUrl(route: RouteWaypoint[] | undefined): string | null {
+  if (!route || route.length === 0) return null;
+  const toParam = (waypoint: RouteWaypoint) => `${waypoint.latitude},${waypoint.longitude}`;
+  if (route.length === 1) {
+    return `https://www.google.com/maps/search/?api=1&query=${toParam(route[0])}`;
+  }
+
+  const inner = route.slice(1, -1);
+  const stops =
+    inner.length <= MAX_LINK_STOPS
+      ? inner
+      : Array.from({ length: MAX_LINK_STOPS }, (_, i) => {
+          const position = ((i + 1) * (inner.length + 1)) / (MAX_LINK_STOPS + 1);
+          return inner[Math.round(position) - 1];
+        });
+  const params = new URLSearchParams({
+    api: "1",
+    origin: toParam(route[0]),
+    destination: toParam(route[route.length - 1]),
+  });
+  if (stops.length > 0) {
+    params.set("waypoints", stops.map(toParam).join("|"));
+  }
+  return `https://www.google.com/maps/dir/?${params.toString()}`;
+}
+
+/**
+ * Short description for headers, e.g. "Depot → Summit (2 stops)".
+ * Returns null when the ride has no planned route.
+ */
+export function describeRoute(route: RouteWaypoint[] | undefined): string | null {
+  if (!route || route.length === 0) return null;
+  if (route.length === 1) return route[0].name;
+
+  const stops = route.length - 2;
+  const summary = `${route[0].name} → ${route[route.length - 1].name}`;
+  return stops > 0 ? `${summary} (${stops} ${stops === 1 ? "stop" : "stops"})` : summary;
+}
+
+/**
+ * Shortest distance in meters from a point to the route line. Infinity when the route is empty.
+ */
+export function distanceToRouteMeters(point: LatLng, route: RouteWaypoint[]): number {
+  const path = getRoutePath(route);
+  if (path.length === 0) return Infinity;
+  if (path.length === 1) return distanceMeters(point, path[0]);
+
+  let shortest = Infinity;
+  for (let i = 1; i < path.length; i++) {
+    shortest = Math.min(shortest, distanceToSegmentMeters(point, path[i - 1], path[i]));
+  }
+  return shortest;
+}
+
+/**
+ * Where a rider is along the route, relative to its closest point on the route line.
+ */
+export interface RouteProgress {
+  // Index of the next waypoint ahead of the rider
+  nextWaypointIndex: number;
+  // Meters from the rider to the next waypoint, following the route
+  distanceToNextWaypoint: number;
+  // Meters from the rider to the last waypoint, following the route
+  distanceRemaining: number;
+  // Planned stop time (minutes) at the waypoints still ahead, excluding the destination
+  stopMinutesRemaining: number;
+}
+
+/**
+ * Progress of a rider along a route of at least two waypoints, or null for shorter routes.
+ * The rider is matched to the closest point on the route; the distance to get back to it is included.
+ */
+export function getRouteProgress(point: LatLng, route: RouteWaypoint[]): RouteProgress | null {
+  const path = getRoutePath(route);
+  if (path.length < 2) return null;
+
+  let closest = { segment: 0, fraction: 0, distance: Infinity };
+  for (let i = 1; i < path.length; i++) {
+    const projection = projectOntoSegment(point, path[i - 1], path[i]);
+    if (projection.distance < closest.distance) {
+      closest = { segment: i - 1, ...projection };
+    }
+  }
+
+  const segmentLength = distanceMeters(path[closest.segment], path[closest.segment + 1]);
+  const nextWaypointIndex = closest.segment + 1;
+  const distanceToNextWaypoint = closest.distance + segmentLength * (1 - closest.fraction);
+
+  let distanceRemaining = distanceToNextWaypoint;
+  let stopMinutesRemaining = 0;
+  for (let i = nextWaypointIndex; i < path.length - 1; i++) {
+    distanceRemaining += distanceMeters(path[i], path[i + 1]);
+    stopMinutesRemaining += route[i].stopMinutes ?? 0;
+  }
+
+  return { nextWaypointIndex, distanceToNextWaypoint, distanceRemaining, stopMinutesRemaining };
+}
@@ -0,0 +1,92 @@
+/**
+ * Adaptive GPS Sampling Policy
+ *
+ * Chooses how aggressively to sample the device position based on ride status, rider movement and
+ * battery level. Each mode maps to geolocation options and an upload window for useLocationSync.
+ * - high: moving on an active ride, full accuracy and frequent uploads
+ * - balanced: stopped or on moderate battery, coarser fixes less often
+ * - saver: paused/ended ride or low battery, occasional one-shot fixes only
+ */
+
+import type { Ride } from "./api";
+
+export type SamplingMode = "high" | "balanced" | "saver";
+
+/**
+ * Geolocation settings for a sampling mode.
+ * - continuous: use watchPosition; otherwise poll with getCurrentPosition once per updateInterval
+ * - maxAccuracy: worst reported accuracy (meters) still accepted by the noise filter. Without high
+ *   accuracy, fixes often come from Wi-Fi or cell towers and are much coarser than GPS.
+ */
+export interface SamplingProfile {
+  enableHighAccuracy: boolean;
+  updateInterval: number;
+  maximumAge: number;
+  continuous: boolean;
+  maxAccuracy: number;
+}
+
+export const SAMPLING_PROFILES: Record<SamplingMode, SamplingProfile> = {
+  high: {
+    enableHighAccuracy: true,
+    updateInterval: 5000,
+    maximumAge: 1000,
+    continuous: true,
+    maxAccuracy: 100,
+  },
+  balanced: {
+    enableHighAccuracy: false,
+    updateInterval: 15000,
+    maximumAge: 10000,
+    continuous: true,
+    maxAccuracy: 500,
+  },
+  saver: {
+    enableHighAccuracy: false,
+    updateInterval: 60000,
+    maximumAge: 30000,
+    continuous: false,
+    maxAccuracy: 2000,
+  },
+};
+
+/**
+ * Battery state as reported by the Battery Status API. `level` is 0..1.
+ */
+export interface BatteryState {
+  level: number;
+  charging: boolean;
+}
+
+export interface SamplingInputs {
+  rideStatus?: Ride["status"];
+  isMoving: boolean;
+  battery?: BatteryState | null;
+}
+
+// Battery thresholds (fraction of full charge) when not charging
+const LOW_BATTERY_LEVEL = 0.15;
+const MODERATE_BATTERY_LEVEL = 0.3;
+
+const MODE_RANK: Record<SamplingMode, number> = { saver: 0, balanced: 1, high: 2 };
+
+/**
+ * Pick the sampling mode for the current conditions. The most conservative constraint wins.
+ */
+export function selectSamplingMode({ rideStatus, isMoving, battery }: SamplingInputs): SamplingMode {
+  const candidates: SamplingMode[] = [isMoving ? "high" : "balanced"];
+
+  if (rideStatus === "PAUSED" || rideStatus === "ENDED") {
+    candidates.push("saver");
+  }
+
+  if (battery && !battery.charging) {
+    if (battery.level <= LOW_BATTERY_LEVEL) {
+      candidates.push("saver");
+    } else if (battery.level <= MODERATE_BATTERY_LEVEL) {
+      candidates.push("balanced");
+    }
+  }
+
+  return candidates.reduce((lowest, mode) => (MODE_RANK[mode] < MODE_RANK[lowest] ? mode : lowest));
+}
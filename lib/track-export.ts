@@ -0,0 +1,253 @@
+/**
+ * Ride Track Export
+ *
+ * Serializes recorded ride tracks and the planned route to GPX 1.1, KML 2.2 and GeoJSON, entirely
+ * client-side. Each member's track keeps its per-point timestamps and reported accuracy:
+ * - GPX: <time> (and <ele> when recorded) per track point, accuracy (meters) in <extensions>
+ * - KML: gx:Track with <when> per coordinate, accuracy as gx:SimpleArrayData
+ * - GeoJSON: LineString per member with parallel `coordTimes` / `accuracies` property arrays
+ */
+
+import type { Ride, RouteWaypoint } from "./api";
+import type { ReplayTrack } from "./ride-replay";
+
+export type ExportFormat = "gpx" | "kml" | "geojson";
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; extension: string; mimeType: string }> = {
+  gpx: { label: "GPX", extension: "gpx", mimeType: "application/gpx+xml" },
+  kml: { label: "KML", extension: "kml", mimeType: "application/vnd.google-earth.kml+xml" },
+  geojson: { label: "GeoJSON", extension: "geojson", mimeType: "application/geo+json" },
+};
+
+const RIDESYNC_GPX_NAMESPACE = "https://ridesync.app/xmlns/gpx/1";
+
+// How long a download's object URL stays alive; some browsers start reading it only after click() returns
+const DOWNLOAD_URL_LIFETIME_MS = 60_000;
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+function toIsoTime(time: number): string {
+  return new Date(time).toISOString();
+}
+
+function trackName(track: ReplayTrack): string {
+  return `${track.user.name} (@${track.user.username})`;
+}
+
+/**
+ * GPX 1.1 document: waypoints and a <rte> for the planned route, one <trk> per member.
+ */
+export function toGpx(ride: Ride, tracks: ReplayTrack[], route: RouteWaypoint[] = []): string {
+  const waypoints = route
+    .map(
+      (waypoint) =>
+        `  <wpt lat="${waypoint.latitude}" lon="${waypoint.longitude}"><name>${escapeXml(waypoint.name)}</name></wpt>`
+    )
+    .join("\n");
+
+  const routeXml =
+    route.length > 0
+      ? [
+          "  <rte>",
+          `    <name>${escapeXml(ride.name)} (planned route)</name>`,
+          ...route.map(
+            (waypoint) =>
+              `    <rtept lat="${waypoint.latitude}" lon="${waypoint.longitude}"><name>${escapeXml(waypoint.name)}</name></rtept>`
+          ),
+          "  </rte>",
+        ].join("\n")
+      : "";
+
+  const tracksXml = tracks
+    .map((track) =>
+      [
+        "  <trk>",
+        `    <name>${escapeXml(trackName(track))}</name>`,
+        "    <trkseg>",
+        ...track.samples.map((sample) => {
+          const accuracy =
+            typeof sample.accuracy === "number"
+              ? `<extensions><rs:accuracy>${sample.accuracy}</rs:accuracy></extensions>`
+              : "";
+          const ele = typeof sample.altitude === "number" ? `<ele>${sample.altitude}</ele>` : "";
+          return `      <trkpt lat="${sample.lat}" lon="${sample.lng}">${ele}<time>${toIsoTime(sample.time)}</time>${accuracy}</trkpt>`;
+        }),
+        "    </trkseg>",
+        "  </trk>",
+      ].join("\n")
+    )
+    .join("\n");
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<gpx version="1.1" creator="RideSync" xmlns="http://www.topografix.com/GPX/1/1" xmlns:rs="${RIDESYNC_GPX_NAMESPACE}">`,
+    `  <metadata><name>${escapeXml(ride.name)}</name><time>${ride.createdAt}</time></metadata>`,
+    waypoints,
+    routeXml,
+    tracksXml,
+    "</gpx>",
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
+
+/**
+ * KML 2.2 document: the planned route as a LineString with a Point per waypoint, one gx:Track per member.
+ */
+export function toKml(ride: Ride, tracks: ReplayTrack[], route: RouteWaypoint[] = []): string {
+  const routeKml =
+    route.length > 0
+      ? [
+          "    <Folder>",
+          "      <name>Planned route</name>",
+          "      <Placemark>",
+          "        <name>Route</name>",
+          `        <LineString><coordinates>${route.map((waypoint) => `${waypoint.longitude},${waypoint.latitude}`).join(" ")}</coordinates></LineString>`,
+          "      </Placemark>",
+          ...route.map(
+            (waypoint) =>
+              `      <Placemark><name>${escapeXml(waypoint.name)}</name><Point><coordinates>${waypoint.longitude},${waypoint.latitude}</coordinates></Point></Placemark>`
+          ),
+          "    </Folder>",
+        ].join("\n")
+      : "";
+
+  const tracksKml = tracks
+    .map((track) =>
+      [
+        "    <Placemark>",
+        `      <name>${escapeXml(trackName(track))}</name>`,
+        "      <gx:Track>",
+        ...track.samples.map((sample) => `        <when>${toIsoTime(sample.time)}</when>`),
+        ...track.samples.map((sample) => `        <gx:coord>${sample.lng} ${sample.lat} 0</gx:coord>`),
+        '        <ExtendedData><SchemaData schemaUrl="#trackData"><gx:SimpleArrayData name="accuracy">',
+        ...track.samples.map((sample) => `          <gx:value>${sample.accuracy ?? ""}</gx:value>`),
+        "        </gx:SimpleArrayData></SchemaData></ExtendedData>",
+        "      </gx:Track>",
+        "    </Placemark>",
+      ].join("\n")
+    )
+    .join("\n");
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2" xmlns:gx="http://www.google.com/kml/ext/2.2">',
+    "  <Document>",
+    `    <name>${escapeXml(ride.name)}</name>`,
+    '    <Schema id="trackData"><gx:SimpleArrayField name="accuracy" type="float"><displayName>Accuracy (m)</displayName></gx:SimpleArrayField></Schema>',
+    routeKml,
+    tracksKml,
+    "  </Document>",
+    "</kml>",
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
+
+/**
+ * GeoJSON FeatureCollection: a LineString per member, plus the planned route and its waypoints.
+ */
+export function toGeoJson(ride: Ride, tracks: ReplayTrack[], route: RouteWaypoint[] = []): string {
+  const features: object[] = [];
+
+  if (route.length > 0) {
+    features.push({
+      type: "Feature",
+      properties: { kind: "route", name: `${ride.name} (planned route)` },
+      geometry: {
+        type: "LineString",
+        coordinates: route.map((waypoint) => [waypoint.longitude, waypoint.latitude]),
+      },
+    });
+    route.forEach((waypoint, index) => {
+      features.push({
+        type: "Feature",
+        properties: { kind: "waypoint", name: waypoint.name, order: index, stopMinutes: waypoint.stopMinutes ?? null },
+        geometry: { type: "Point", coordinates: [waypoint.longitude, waypoint.latitude] },
+      });
+    });
+  }
+
+  tracks.forEach((track) => {
+    features.push({
+      type: "Feature",
+      properties: {
+        kind: "track",
+        name: trackName(track),
+        userId: track.userId,
+        coordTimes: track.samples.map((sample) => toIsoTime(sample.time)),
+        accuracies: track.samples.map((sample) => sample.accuracy ?? null),
+      },
+      geometry: {
+        type: "LineString",
+        coordinates: track.samples.map((sample) => [sample.lng, sample.lat]),
+      },
+    });
+  });
+
+  return JSON.stringify(
+    { type: "FeatureCollection", properties: { name: ride.name, rideId: ride.id }, features },
+    null,
+    2
+  );
+}
+
+/**
+ * Serialize tracks to the given format.
+ */
+export function exportRide(
+  format: ExportFormat,
+  ride: Ride,
+  tracks: ReplayTrack[],
+  route: RouteWaypoint[] = []
+): string {
+  switch (format) {
+    case "gpx":
+      return toGpx(ride, tracks, route);
+    case "kml":
+      return toKml(ride, tracks, route);
+    case "geojson":
+      return toGeoJson(ride, tracks, route);
+  }
+}
+
+/**
+ * File name stem from the ride's name and an optional suffix, e.g. "sunday-loop-alice".
+ */
+export function getFileSlug(ride: Ride, suffix?: string): string {
+  const slug = [ride.name, suffix]
+    .filter(Boolean)
+    .join("-")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+  return slug || "ride";
+}
+
+/**
+ * File name for an export, e.g. "sunday-loop-alice.gpx".
+ */
+export function getExportFileName(ride: Ride, format: ExportFormat, suffix?: string): string {
+  return `${getFileSlug(ride, suffix)}.${EXPORT_FORMATS[format].extension}`;
+}
+
+/**
+ * Save a generated file through the browser's download mechanism.
+ */
+export function downloadFile(fileName: string, content: string, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), DOWNLOAD_URL_LIFETIME_MS);
+}